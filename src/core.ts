@@ -5,22 +5,43 @@ import type {
   Mutate,
 } from "zustand/vanilla";
 
-import {
-  getIn,
-  setIn,
-  shallowEqual,
-  isPlainObject,
-  PropType,
-} from "@dhmk/utils";
+import { shallowEqual, arraysEqual, isPlainObject } from "@dhmk/utils";
 
 import { createStore } from "zustand/vanilla";
 
+import { toData, withFunctions } from "./utils";
+
 export const meta = Symbol("lens meta");
 const storeContext = Symbol("store context");
 
+// https://stackoverflow.com/a/52473108
+type IfEquals<X, Y, A, B> = (<U>() => U extends X ? 1 : 2) extends <
+  U
+>() => U extends Y ? 1 : 2
+  ? A
+  : B;
+
+type WritableKeys<T> = {
+  [K in keyof T]-?: IfEquals<
+    { [Q in K]: T[K] },
+    { -readonly [Q in K]: T[K] },
+    K,
+    never
+  >;
+}[keyof T];
+
+// excludes readonly (computed) props
+export type Writable<T> = IsAny<T> extends true
+  ? T
+  : T extends ReadonlyArray<any> | Function
+  ? T
+  : T extends object
+  ? Pick<T, WritableKeys<T>>
+  : T;
+
 export type SetParameter<T> =
-  | Partial<T>
-  | ((state: T) => Partial<T> | void)
+  | Partial<Writable<T>>
+  | ((state: T) => Partial<Writable<T>> | void)
   // for immer and similar
   | ((state: T) => T);
 
@@ -46,25 +67,208 @@ type CreateLensStateSetter<T> = (
 
 type CreateLensSetter<T> = CreateLensPartialSetter<T> | CreateLensStateSetter<T>
 
-export function createLens<T, P extends string[]>(
+// paths
+
+export type PathKey = string | number;
+
+export type PathPredicate<T = any> = (value: T, key: PathKey) => boolean;
+
+// focuses on a transformed view of a parent value
+export type Optic<P = any, V = any> = {
+  get: (parent: P) => V;
+  set: (parent: P, view: V) => P;
+};
+
+export type PathSegment = PathKey | PathPredicate | Optic;
+
+type PathStep<T, K> = K extends Optic<any, infer V>
+  ? V
+  : K extends PathPredicate
+  ? T extends ReadonlyArray<infer E>
+    ? E
+    : T[keyof T]
+  : K extends keyof T
+  ? T[K]
+  : T extends ReadonlyArray<infer E>
+  ? K extends number | `${number}`
+    ? E
+    : unknown
+  : unknown;
+
+export type PathType<T, P extends ReadonlyArray<unknown>> = P extends readonly [
+  infer K,
+  ...infer R
+]
+  ? PathType<PathStep<T, K>, R>
+  : T;
+
+const isObject = (x): x is object => !!x && typeof x === "object";
+
+const isOptic = (x): x is Optic => isObject(x);
+
+const prismTag = Symbol("prism");
+
+// optic which focuses on a value that may be absent (`get` returns `undefined`),
+// setting an absent value does nothing
+export const prism = <P, V>(optic: {
+  get: (parent: P) => V | undefined;
+  set: (parent: P, view: V) => P;
+}): Optic<P, V | undefined> =>
+  ({ ...optic, [prismTag]: true } as Optic<P, V | undefined>);
+
+export const where =
+  <T>(props: Partial<T>): PathPredicate<T> =>
+  (x) =>
+    isObject(x) && Object.keys(props).every((k) => x[k] === props[k]);
+
+export const byId = (id: unknown) => where<{ id: unknown }>({ id });
+
+// returns actual key for `segment` or `undefined` if nothing matches
+const resolveKey = (
+  x,
+  segment: Exclude<PathSegment, Optic>
+): PathKey | undefined => {
+  if (typeof segment !== "function") return segment;
+  if (!isObject(x)) return undefined;
+
+  const keys: PathKey[] = Array.isArray(x)
+    ? x.map((_, i) => i)
+    : Object.keys(x);
+
+  for (const k of keys) {
+    if (segment(x[k], k)) return k;
+  }
+};
+
+const getIn = (x, path: ReadonlyArray<PathSegment>) =>
+  path.reduce((v, segment) => {
+    if (isOptic(segment)) return segment.get(v);
+
+    const k = resolveKey(v, segment);
+    return k === undefined || v == null ? undefined : v[k];
+  }, x);
+
+const setIn = (x, path: ReadonlyArray<PathSegment>, value) => {
+  if (!path.length) return value;
+
+  const [segment, ...rest] = path;
+
+  if (isOptic(segment)) {
+    const view = segment.get(x);
+    if (view === undefined && segment[prismTag]) return x;
+
+    const v = setIn(view, rest, value);
+    return v === view ? x : segment.set(x, v);
+  }
+
+  const k = resolveKey(x, segment);
+  if (k === undefined) return x; // unmatched predicate, nothing to update
+
+  const v = setIn(x?.[k], rest, value);
+  if (isObject(x) && k in x && v === x[k]) return x;
+
+  // numeric index on a missing container creates an array
+  if (Array.isArray(x) || (x == null && typeof k === "number")) {
+    const res = x ? x.slice() : [];
+    res[k] = v; // index may be past the end (append)
+    return res;
+  }
+
+  return { ...x, [k]: v };
+};
+
+// validation
+
+export type ValidationIssue = {
+  path: ReadonlyArray<PathKey>; // relative to the lens
+  message: string;
+};
+
+export type ValidationResult = ReadonlyArray<ValidationIssue> | string | void;
+
+export type ValidationError = Error & {
+  rootPath: ReadonlyArray<PathKey>; // path of the lens which failed validation
+  issues: ReadonlyArray<ValidationIssue>;
+};
+
+const validationMode = Symbol("validation mode");
+
+const formatValidationError = (e: ValidationError) =>
+  `Invalid state at "${e.rootPath.join(".")}": ` +
+  e.issues
+    .map((x) => (x.path.length ? x.path.join(".") + ": " : "") + x.message)
+    .join("; ");
+
+export const isValidationError = (e): e is ValidationError =>
+  isObject(e) && validationMode in e;
+
+// `onInvalid: "log"` errors only drop the invalid update
+const isLoggedError = (e) =>
+  isValidationError(e) && e[validationMode] === "log";
+
+// throws if `[meta].validate` reports any issues
+const validate = (state, prevState, props?: LensMetaProps<any, any>) => {
+  const res = props?.validate?.(state, prevState);
+  const issues = typeof res === "string" ? [{ path: [], message: res }] : res;
+  if (!issues || !issues.length) return;
+
+  const error = Object.assign(new Error(), {
+    rootPath: [],
+    issues,
+    [validationMode]: props!.onInvalid ?? "throw",
+  }) as ValidationError;
+  error.message = formatValidationError(error);
+  throw error;
+};
+
+// prepends `path` to `rootPath` of validation errors thrown by nested lenses
+const withErrorPath =
+  (path: ReadonlyArray<PathSegment> | undefined, fn: (state) => unknown) =>
+  (state) => {
+    try {
+      return fn(state);
+    } catch (e) {
+      if (path && isValidationError(e)) {
+        const keys: PathKey[] = [];
+        path.reduce((v, segment) => {
+          if (isOptic(segment)) {
+            keys.push("(optic)");
+            return segment.get(v);
+          }
+
+          const k = resolveKey(v, segment);
+          keys.push(k ?? "(predicate)");
+          return k === undefined || v == null ? undefined : v[k];
+        }, state);
+
+        e.rootPath = keys.concat(e.rootPath);
+        e.message = formatValidationError(e);
+      }
+      throw e;
+    }
+  };
+
+export function createLens<T, P extends PathSegment[]>(
   set: CreateLensSetter<T>,
   get: Getter<T>,
   path: readonly [...P]
-): [Setter<PropType<T, P>>, Getter<PropType<T, P>>];
-export function createLens<T, P extends string>(
+): [Setter<PathType<T, P>>, Getter<PathType<T, P>>];
+export function createLens<T, P extends PathSegment>(
   set: CreateLensSetter<T>,
   get: Getter<T>,
   path: P
-): [Setter<PropType<T, [P]>>, Getter<PropType<T, [P]>>];
+): [Setter<PathType<T, [P]>>, Getter<PathType<T, [P]>>];
 // pathless overload to normalize setter's behavior
 // function createLens(set, get)
 export function createLens(set, get, path) {
   const normPath =
-    path === undefined ? undefined : typeof path === "string" ? [path] : path;
+    path === undefined ? undefined : Array.isArray(path) ? path : [path];
+  // optics return new views, so they can't be used for immer detection
+  const hasOptic = !!normPath?.some(isOptic);
 
   const _set = (partial, replace, ...args) =>
     set(
-      (parentValue) => {
+      withErrorPath(normPath, (parentValue) => {
         const ourOldValue: any = normPath
           ? getIn(parentValue, normPath)
           : parentValue;
@@ -74,18 +278,26 @@ export function createLens(set, get, path) {
 
         // immer detection
         const ourOldValue2 = normPath ? getIn(get(), normPath) : get();
-        const isDraft = isPlain && ourOldValue !== ourOldValue2;
+        const isDraft = isPlain && !hasOptic && ourOldValue !== ourOldValue2;
 
         if (isDraft) {
           const draft = ourOldValue;
+          if (replace && ourTmpValue && ourTmpValue !== draft) {
+            Object.keys(draft).forEach((k) => {
+              if (!(k in ourTmpValue)) delete draft[k];
+            });
+          }
           if (ourTmpValue) Object.assign(draft, ourTmpValue);
           // not a `draft[meta]` because of immer@10 bug (https://github.com/immerjs/immer/issues/1087)
           const pp = /*draft*/ ourOldValue2[meta]?.postprocess?.(
-            draft,
+            withChanges(draft, () => diffDraftChanges(ourOldValue2, draft)),
             ourOldValue2,
             ...args
           );
           if (pp) Object.assign(draft, pp);
+          // can't compare draft's dependencies, so recompute everything
+          applyComputed(draft, undefined, ourOldValue2[meta]?.computed);
+          validate(draft, ourOldValue2, ourOldValue2[meta]);
           return;
         }
 
@@ -98,23 +310,37 @@ export function createLens(set, get, path) {
           ? {
               ...ourTmpValue2,
               ...ourTmpValue2[meta]?.postprocess?.(
-                ourTmpValue2,
+                withChanges(ourTmpValue2, () =>
+                  diffChanges(ourOldValue, ourTmpValue2)
+                ),
                 ourOldValue,
                 ...args
               ),
             }
           : ourTmpValue2;
 
+        if (isPlain) {
+          applyComputed(
+            ourNextValue,
+            ourOldValue,
+            ourNextValue[meta]?.computed
+          );
+        }
+
         const isSame = isPlain
           ? shallowEqual(ourOldValue as any, ourNextValue)
           : Object.is(ourOldValue, ourNextValue);
 
+        if (isPlain && !isSame) {
+          validate(ourNextValue, ourOldValue, ourNextValue[meta]);
+        }
+
         return isSame
           ? parentValue
           : normPath
           ? setIn(parentValue, normPath, ourNextValue)
           : ourNextValue;
-      },
+      }),
       normPath ? false : replace,
       ...args
     );
@@ -124,6 +350,47 @@ export function createLens(set, get, path) {
   return [_set, _get] as any;
 }
 
+// computed
+
+export type ComputedField<T, V> =
+  | ((state: T) => V)
+  | {
+      deps: (state: T) => ReadonlyArray<unknown>;
+      compute: (state: T) => V;
+    };
+
+export type ComputedFields<T> = {
+  [K in keyof T]?: ComputedField<T, T[K]>;
+};
+
+// mutates `state`, keeps previous values if their dependencies are the same
+const applyComputed = (state, prevState, computed?: ComputedFields<any>) => {
+  if (!computed) return state;
+
+  const data = (x) => {
+    const res = { ...x };
+    for (const k in computed) delete res[k];
+    return res;
+  };
+
+  for (const k in computed) {
+    const field = computed[k]!;
+
+    const isChanged =
+      !prevState ||
+      !(k in prevState) ||
+      (typeof field === "function"
+        ? !shallowEqual(data(prevState), data(state))
+        : !arraysEqual(field.deps(prevState), field.deps(state)));
+
+    state[k] = isChanged
+      ? (typeof field === "function" ? field : field.compute)(state)
+      : prevState[k];
+  }
+
+  return state;
+};
+
 const LENS_TAG = "@dhmk/LENS_TAG";
 
 const isLens = (x): x is Lens<any> => !!x && x[LENS_TAG];
@@ -153,7 +420,18 @@ export type LensMetaProps<T, S> = {
     ...args: unknown[]
   ) => Partial<T> | void;
 
-  setter?: (set: () => void, ctx: LensContext<T, S>) => void;
+  setter?: (set: () => Changes, ctx: LensContext<T, S>) => void;
+
+  computed?: ComputedFields<T>;
+
+  validate?: (state: T, prevState: T) => ValidationResult;
+
+  onInvalid?: "throw" | "log"; // "log" drops invalid update without throwing
+
+  onPatches?: (patches: JsonPatch[]) => void; // patches inside the lens
+
+  // called after the state is committed, once per `atomic` block
+  onChange?: (changes: Changes, state: T, prevState: T) => void;
 };
 
 export type LensMeta<T, S> = {
@@ -162,13 +440,47 @@ export type LensMeta<T, S> = {
   [meta]?: LensMetaProps<T, S>;
 };
 
+export type SubscribeOptions<U> = {
+  equalityFn?: (a: U, b: U) => boolean;
+  fireImmediately?: boolean;
+};
+
+export type AtomicOptions = {
+  // discard all changes of the outermost atomic block if `fn` throws
+  rollback?: boolean;
+};
+
+export type TransactionOptions = {
+  // what to do if a key changed by the transaction was also changed outside it
+  conflict?: "reject" | "overwrite";
+};
+
+// no `replace`, keys can't be removed by a transaction
+export type TransactionSetter<T> = (partial: SetParameter<T>) => void;
+
 export type LensContext<T, S> = {
   set: Setter<unknown>; // Setter<T> may cause error
   get: Getter<T>;
   api: ResolveStoreApi<S>;
-  rootPath: ReadonlyArray<string>;
-  relativePath: ReadonlyArray<string>;
-  atomic: (fn: () => void) => void;
+  rootPath: ReadonlyArray<PathKey>;
+  relativePath: ReadonlyArray<PathKey>;
+  atomic: (fn: () => void, options?: AtomicOptions) => void;
+  subscribe: <U>(
+    selector: (state: T) => U,
+    effect: (state: U, prevState: U) => void,
+    options?: SubscribeOptions<U>
+  ) => () => void;
+  transaction: <R>(
+    fn: (set: TransactionSetter<T>, get: Getter<T>) => Promise<R> | R,
+    options?: TransactionOptions
+  ) => Promise<R>;
+  reset: (keys?: ReadonlyArray<keyof T>) => void;
+  // lens position in the store is unknown to its type, so `P` and `U` are not inferred
+  parent: <P = unknown>() => LensContext<P, S>;
+  ref: <U = unknown>(
+    path: PathKey | ReadonlyArray<PathKey>
+  ) => [Setter<U>, Getter<U>];
+  onUnmount: (fn: () => void) => () => void;
 };
 
 export type Lens<
@@ -196,6 +508,676 @@ export function lens<T, S = unknown>(
   return self as any;
 }
 
+export function subscribe<T, U>(
+  store: { subscribe: (fn: (s: T) => any) => any; getState(): T },
+  selector: (state: T) => U,
+  effect: (state: U, prevState: U) => void,
+  options: SubscribeOptions<U> = {}
+) {
+  const { equalityFn = Object.is, fireImmediately = false } = options;
+
+  let curr = selector(store.getState());
+
+  if (fireImmediately) effect(curr, curr);
+
+  return store.subscribe((state) => {
+    const next = selector(state);
+    if (!equalityFn(next, curr)) {
+      const prev = curr;
+      effect((curr = next), prev);
+    }
+  });
+}
+
+type LensRecord = {
+  ctx: LensContext<any, any>;
+  dispose: () => void;
+};
+
+type StoreContext = {
+  atomic?: (fn: () => void, options?: AtomicOptions) => void;
+  lenses?: LensRecord[];
+  // lenses which are being created don't have their state yet
+  pending?: Array<(rootState) => void>;
+  devtools?: boolean;
+  actions?: string[]; // names of currently running actions
+  recorders?: Array<(entry: RecordedEntry) => void>;
+  isRecording?: boolean; // only the outermost `set` call is recorded
+  strict?: boolean;
+  lensState?: unknown; // the last state made by lens `set` functions
+  isLensSet?: boolean;
+  listeners?: LensRecord[]; // lenses with `onChange` or `onPatches`
+  listen?: () => void; // subscribes to the store once
+};
+
+// shared between `api` copies made by middlewares (see `atomic`)
+const getStoreContext = (api): StoreContext =>
+  api[storeContext] ?? (api[storeContext] = {});
+
+// returns a function which must be called when created lenses are in the state
+const beginCreate = (api) => {
+  const storeCtx = getStoreContext(api);
+  const outer = storeCtx.pending;
+  storeCtx.pending = [];
+
+  return (rootState) => {
+    const fns = storeCtx.pending!;
+    storeCtx.pending = outer;
+    fns.forEach((fn) => fn(rootState));
+  };
+};
+
+// transactions
+
+// mutators get a copy, so they can't change the committed state
+const copyState = (x) => {
+  if (Array.isArray(x)) return x.map(copyState);
+  if (!isPlainObject(x)) return x;
+
+  const res = { ...x };
+  Object.keys(x).forEach((k) => (res[k] = copyState(x[k])));
+  return res;
+};
+
+const isChanged = (a, b) => a !== b && diffChanges(a, b).paths.length > 0;
+
+const createTransaction =
+  (ctx: LensContext<any, any>): LensContext<any, any>["transaction"] =>
+  (fn, options = {}) => {
+    const { conflict = "reject" } = options;
+    const base = ctx.get();
+    let working = base;
+    let isDone = false;
+
+    const set = (partial) => {
+      if (isDone) return;
+
+      if (typeof partial === "function") {
+        const draft = copyState(working);
+        const next = partial(draft);
+        working = next ? { ...draft, ...next } : draft;
+      } else if (partial) {
+        working = { ...working, ...partial };
+      }
+    };
+
+    const get = () => working;
+
+    const finish = () => {
+      isDone = true;
+    };
+
+    return new Promise((resolve) => resolve(fn(set, get))).then(
+      (res) => {
+        finish();
+
+        const current = ctx.get();
+        const changes = {};
+
+        Object.keys(working).forEach((k) => {
+          if (isChanged(base[k], working[k])) changes[k] = working[k];
+        });
+
+        const conflicts = Object.keys(changes).filter(
+          (k) => current[k] !== base[k]
+        );
+
+        if (conflicts.length && conflict === "reject") {
+          throw new Error(
+            `Transaction conflict at "${ctx.rootPath.join(
+              "/"
+            )}": ${conflicts.join(", ")}`
+          );
+        }
+
+        if (Object.keys(changes).length) ctx.set(changes);
+        return res as any;
+      },
+      (e) => {
+        finish();
+        throw e;
+      }
+    );
+  };
+
+// reset
+
+const createReset =
+  (
+    ctx: LensContext<any, any>,
+    getInitial: () => any
+  ): LensContext<any, any>["reset"] =>
+  (keys) => {
+    const initial = getInitial();
+    const partial = keys
+      ? keys.reduce((acc, k) => ({ ...acc, [k]: initial[k] }), {})
+      : initial;
+
+    // dispose lenses which won't be in the state anymore (e.g. `lensMap` items)
+    const lenses = getLensRecords(ctx.api);
+    const next = { ...ctx.get(), ...partial };
+
+    for (let i = lenses.length - 1; i >= 0; i--) {
+      const { rootPath } = lenses[i].ctx;
+
+      if (
+        rootPath.length > ctx.rootPath.length &&
+        isPathPrefix(ctx.rootPath, rootPath) &&
+        getIn(next, rootPath.slice(ctx.rootPath.length)) === undefined
+      ) {
+        lenses[i].dispose();
+        lenses.splice(i, 1);
+      }
+    }
+
+    ctx.set(partial);
+  };
+
+export function resetAll(
+  api: StoreApi<any>,
+  keys?: ReadonlyArray<PathKey>
+): void {
+  getLensRecords(api)[0].ctx.reset(keys);
+}
+
+// parent and sibling lenses
+
+const createParent =
+  (ctx: LensContext<any, any>): LensContext<any, any>["parent"] =>
+  () => {
+    if (!ctx.rootPath.length) throw new Error("Root has no parent lens.");
+    return findOwner(getLensRecords(ctx.api), ctx.rootPath.slice(0, -1)).ctx;
+  };
+
+// `path` is relative to an object which contains the lens
+const createRef =
+  (ctx: LensContext<any, any>): LensContext<any, any>["ref"] =>
+  (path) => {
+    const absPath = ctx.rootPath.slice(0, -1).concat(path);
+
+    // sibling lens may not exist yet, so find it on every call
+    const set = (...args) => {
+      const owner = findOwner(getLensRecords(ctx.api), absPath).ctx;
+      const relativePath = absPath.slice(owner.rootPath.length);
+      const [_set] = relativePath.length
+        ? createLens(owner.set as any, owner.get, relativePath)
+        : [owner.set];
+
+      (_set as any)(...args);
+    };
+
+    const get = () => getIn(ctx.api.getState(), absPath);
+
+    return [set, get] as any;
+  };
+
+// devtools
+
+const trackAction = (storeCtx: StoreContext, name: string, fn) =>
+  function (this: unknown, ...args) {
+    storeCtx.actions!.push(name);
+    try {
+      return fn.apply(this, args);
+    } finally {
+      storeCtx.actions!.pop();
+    }
+  };
+
+// names `set` call as `lens/path/action`, a name passed to `set` overrides action name
+const withActionName = (
+  storeCtx: StoreContext,
+  rootPath: ReadonlyArray<PathKey>,
+  args: unknown[]
+) => {
+  if (!storeCtx.devtools) return args;
+
+  const [partial, replace, name, ...rest] = args;
+  if (name !== undefined && typeof name !== "string") return args; // already named
+
+  const actions = storeCtx.actions!;
+  const suffix = name ?? actions[actions.length - 1];
+  const type = rootPath.concat(suffix === undefined ? [] : suffix).join("/");
+
+  return type ? [partial, replace, { type }, ...rest] : args;
+};
+
+// strict mode
+
+const deepFreeze = (x) => {
+  if ((isPlainObject(x) || Array.isArray(x)) && !Object.isFrozen(x)) {
+    Object.freeze(x);
+    Object.keys(x).forEach((k) => deepFreeze(x[k]));
+  }
+  return x;
+};
+
+// error messages differ between engines
+const isMutationError = (e): e is TypeError =>
+  e instanceof TypeError && /read.?only|not extensible|delete/i.test(e.message);
+
+// adds a path to errors thrown by writes to frozen state
+const catchMutations = (rootPath: ReadonlyArray<PathKey>, fn) =>
+  function (this: unknown, ...args) {
+    try {
+      return fn.apply(this, args);
+    } catch (e) {
+      if (!isMutationError(e)) throw e;
+
+      const path = rootPath.join(".");
+      throw Object.assign(
+        new Error(
+          `Can't mutate state at "${path}", use \`set\` instead. ${e.message}`
+        ),
+        { rootPath: rootPath.slice(), cause: e }
+      );
+    }
+  };
+
+// warns about changes of lens state which weren't made by lens `set` functions
+const checkDirectWrites = (
+  storeCtx: StoreContext,
+  state,
+  prevState = storeCtx.lensState
+) => {
+  storeCtx.lensState = state;
+  if (prevState === undefined || prevState === state) return;
+
+  const lenses = storeCtx.lenses!;
+  const owners: LensRecord[] = [];
+  diffChanges(prevState, state).paths.forEach((path) => {
+    const owner = findOwner(lenses, path);
+    if (owner !== lenses[0] && owners.indexOf(owner) === -1) owners.push(owner);
+  });
+
+  owners.forEach(({ ctx }) =>
+    console.warn(
+      `State of lens at "${ctx.rootPath.join(".")}" was changed with ` +
+        "`setState`, use lens `set` instead."
+    )
+  );
+};
+
+// the state which is set by `fn` is known to be made by lenses
+const runLensSet = (storeCtx: StoreContext, get, fn: () => void) => {
+  if (!storeCtx.strict) return fn();
+
+  checkDirectWrites(storeCtx, get());
+
+  const outer = storeCtx.isLensSet;
+  storeCtx.isLensSet = true;
+  try {
+    fn();
+  } finally {
+    storeCtx.isLensSet = outer;
+  }
+
+  storeCtx.lensState = get();
+};
+
+// record and replay
+
+export type RecordedSet = {
+  type: "set";
+  path: ReadonlyArray<PathKey>; // lens `rootPath`
+  name?: string; // `set` name (e.g. from `namedSetter`)
+  args: unknown[]; // extra `set` arguments
+  changes: Record<string, unknown>; // changed and added keys (without functions)
+  removed: string[];
+  time: number;
+};
+
+// `mountLens` and `unmountLens` calls
+export type RecordedMount = {
+  type: "mount";
+  path: ReadonlyArray<PathKey>;
+  time: number;
+};
+
+export type RecordedUnmount = {
+  type: "unmount";
+  path: ReadonlyArray<PathKey>;
+  time: number;
+};
+
+// calls of `lensMap` and `lensList` actions, which create and remove lenses
+export type RecordedCall = {
+  type: "call";
+  path: ReadonlyArray<PathKey>; // collection `rootPath`
+  action: "add" | "remove";
+  args: unknown[];
+  time: number;
+};
+
+export type RecordedEntry =
+  | RecordedSet
+  | RecordedMount
+  | RecordedUnmount
+  | RecordedCall;
+
+const dataKeys = (x) =>
+  isPlainObject(x)
+    ? Object.keys(x).filter((k) => typeof x[k] !== "function")
+    : [];
+
+const emitEntry = (storeCtx: StoreContext, entry: RecordedEntry) =>
+  storeCtx.recorders!.forEach((fn) => fn(entry));
+
+// only the outermost call is recorded, so mounting doesn't record its `set`
+const recordCall = (
+  storeCtx: StoreContext,
+  entry: () => RecordedEntry,
+  fn: () => void
+) => {
+  if (!storeCtx.recorders?.length || storeCtx.isRecording) return fn();
+
+  storeCtx.isRecording = true;
+  try {
+    fn();
+  } finally {
+    storeCtx.isRecording = false;
+  }
+
+  emitEntry(storeCtx, entry());
+};
+
+const recordSet = (
+  storeCtx: StoreContext,
+  ctx: LensContext<any, any>,
+  args: unknown[],
+  fn: () => void
+) => {
+  if (!storeCtx.recorders?.length || storeCtx.isRecording) return fn();
+
+  const prev = ctx.get();
+
+  storeCtx.isRecording = true;
+  try {
+    fn();
+  } finally {
+    storeCtx.isRecording = false;
+  }
+
+  const next = ctx.get();
+  const changes = {};
+  dataKeys(next).forEach((k) => {
+    if (!isPlainObject(prev) || next[k] !== prev[k]) {
+      changes[k] = toData(next[k]);
+    }
+  });
+  const removed = dataKeys(prev).filter((k) => !(k in next));
+  if (!Object.keys(changes).length && !removed.length) return;
+
+  const name = args[2];
+  emitEntry(storeCtx, {
+    type: "set",
+    path: ctx.rootPath.slice(),
+    name: typeof name === "string" ? name : (name as { type?: string })?.type,
+    args: toData(args.slice(2)),
+    changes,
+    removed,
+    time: Date.now(),
+  });
+};
+
+export function createRecorder(api: StoreApi<any>) {
+  getLensRecords(api); // check `withLenses`
+
+  const storeCtx = getStoreContext(api);
+  const log: RecordedEntry[] = [];
+  const recorder = (entry: RecordedEntry) => log.push(entry);
+
+  if (!storeCtx.recorders) storeCtx.recorders = [];
+  storeCtx.recorders.push(recorder);
+
+  return {
+    log,
+    stop() {
+      const i = storeCtx.recorders!.indexOf(recorder);
+      if (i !== -1) storeCtx.recorders!.splice(i, 1);
+    },
+  };
+}
+
+export type ReplayerOptions = {
+  // returns a lens to mount at `path`, functions can't be recorded
+  mount?: (path: ReadonlyArray<PathKey>) => unknown;
+};
+
+// re-applies `log` step by step with lens `set` functions
+export function createReplayer(
+  api: StoreApi<any>,
+  log: ReadonlyArray<RecordedEntry>,
+  options: ReplayerOptions = {}
+) {
+  let position = 0;
+
+  const notFound = (path: ReadonlyArray<PathKey>) =>
+    new Error(`Lens not found at "${path.join("/")}".`);
+
+  const replay = (entry: RecordedEntry) => {
+    if (entry.type === "unmount") return unmountLens(api, entry.path);
+
+    if (entry.type === "mount") {
+      const x = options.mount?.(entry.path);
+      if (x === undefined) {
+        throw new Error(
+          `Can't mount a lens at "${entry.path.join("/")}", ` +
+            "pass `mount` option to replayer."
+        );
+      }
+      return void mountLens(api, entry.path, x);
+    }
+
+    if (entry.type === "call") {
+      const collection = getIn(api.getState(), entry.path);
+      if (!collection) throw notFound(entry.path);
+      return collection[entry.action](...entry.args);
+    }
+
+    const record = getLensRecords(api).find((x) =>
+      arraysEqual(x.ctx.rootPath, entry.path)
+    );
+    if (!record) throw notFound(entry.path);
+
+    (record.ctx.set as any)(
+      (s) => {
+        const res = { ...s };
+        entry.removed.forEach((k) => delete res[k]);
+        Object.keys(entry.changes).forEach(
+          (k) => (res[k] = withFunctions(s[k], entry.changes[k]))
+        );
+        return res;
+      },
+      true,
+      ...entry.args
+    );
+  };
+
+  const step = () => {
+    const entry = log[position];
+    if (!entry) return false;
+
+    replay(entry);
+    position++;
+    return true;
+  };
+
+  return {
+    get position() {
+      return position;
+    },
+    step,
+    run() {
+      while (step());
+    },
+  };
+}
+
+const createSubscribe =
+  (
+    ctx: LensContext<any, any>,
+    cleanups: Array<() => void>
+  ): LensContext<any, any>["subscribe"] =>
+  (selector, effect, options) => {
+    const { pending } = getStoreContext(ctx.api);
+    let isActive = true;
+    let unsub = () => {};
+
+    const init = (rootState) => {
+      if (!isActive) return;
+
+      unsub = subscribe(
+        {
+          subscribe: ctx.api.subscribe,
+          getState: () => rootState,
+        },
+        (state) => selector(getIn(state, ctx.rootPath)),
+        effect,
+        options
+      );
+    };
+
+    if (pending) pending.push(init);
+    else init(ctx.api.getState());
+
+    const unsubscribe = () => {
+      isActive = false;
+      unsub();
+      const i = cleanups.indexOf(unsubscribe);
+      if (i !== -1) cleanups.splice(i, 1);
+    };
+
+    cleanups.push(unsubscribe);
+    return unsubscribe;
+  };
+
+// `fn` is called once when the lens is unmounted, returns a function which cancels it
+const createOnUnmount =
+  (cleanups: Array<() => void>): LensContext<any, any>["onUnmount"] =>
+  (fn) => {
+    const cancel = () => {
+      const i = cleanups.indexOf(run);
+      if (i !== -1) cleanups.splice(i, 1);
+    };
+
+    const run = () => {
+      cancel();
+      fn();
+    };
+
+    cleanups.push(run);
+    return cancel;
+  };
+
+const isPathPrefix = (
+  prefix: ReadonlyArray<unknown>,
+  path: ReadonlyArray<unknown>
+) => prefix.length <= path.length && prefix.every((k, i) => k === path[i]);
+
+const createProp = (k: PathKey, v, parentCtx: LensContext<any, any>) => {
+  const storeCtx = getStoreContext(parentCtx.api);
+
+  if (typeof v === "function" && !isLens(v)) {
+    if (storeCtx.strict) v = catchMutations(parentCtx.rootPath, v);
+    return storeCtx.devtools ? trackAction(storeCtx, String(k), v) : v;
+  }
+
+  let nextSet = parentCtx.set;
+  let nextGet = parentCtx.get;
+  let nextRelativePath = parentCtx.relativePath.concat(k);
+  const isLensProp = isLens(v);
+  let initial; // initial lens state
+
+  if (isLensProp) {
+    // partial context
+    // `lens` will update it with `set` and `get`
+    const lensCtx: LensContext<any, any> = {
+      set: undefined as any, // will be set by `lens` function
+      get: undefined as any, // see `set`
+      api: parentCtx.api,
+      rootPath: parentCtx.rootPath.concat(k),
+      relativePath: parentCtx.relativePath.concat(k),
+      atomic:
+        parentCtx.atomic === atomicStub
+          ? atomicStubWithWarning
+          : parentCtx.atomic,
+      subscribe: undefined as any, // see below
+      transaction: undefined as any, // see below
+      reset: undefined as any, // see below
+      parent: undefined as any, // see below
+      ref: undefined as any, // see below
+      onUnmount: undefined as any, // see below
+    };
+
+    const cleanups: Array<() => void> = [];
+    lensCtx.subscribe = createSubscribe(lensCtx, cleanups);
+    lensCtx.transaction = createTransaction(lensCtx);
+    lensCtx.reset = createReset(lensCtx, () => initial);
+    lensCtx.parent = createParent(lensCtx);
+    lensCtx.ref = createRef(lensCtx);
+    lensCtx.onUnmount = createOnUnmount(cleanups);
+
+    let setterFn: any = (x) => x();
+    let isMounted = true;
+
+    const set = (...args) => {
+      if (!isMounted) return;
+
+      recordSet(storeCtx, lensCtx, args, () =>
+        parentCtx.atomic(() =>
+          setterFn(() => {
+            const prev = lensCtx.get();
+            (parentCtx.set as any)(
+              ...withActionName(storeCtx, lensCtx.rootPath, args)
+            );
+            return lazyChanges(prev, lensCtx.get());
+          }, lensCtx)
+        )
+      );
+    };
+
+    v = v(set, parentCtx.get, parentCtx.api, lensCtx);
+    if (v[meta]?.setter) setterFn = v[meta].setter;
+    nextSet = lensCtx.set;
+    nextGet = lensCtx.get;
+    nextRelativePath = [];
+
+    const record: LensRecord = {
+      ctx: lensCtx,
+      dispose() {
+        isMounted = false;
+        cleanups.slice().forEach((fn) => fn());
+      },
+    };
+
+    storeCtx.lenses?.push(record);
+    if (hasListeners(v)) lensCtx.onUnmount(addListener(storeCtx, record));
+  }
+
+  const res = findLensAndCreate(v, {
+    set: nextSet,
+    get: nextGet,
+    api: parentCtx.api,
+    rootPath: parentCtx.rootPath.concat(k),
+    relativePath: nextRelativePath,
+    atomic: parentCtx.atomic,
+    subscribe: parentCtx.subscribe,
+    transaction: parentCtx.transaction,
+    reset: parentCtx.reset,
+    parent: parentCtx.parent,
+    ref: parentCtx.ref,
+    onUnmount: parentCtx.onUnmount,
+  });
+
+  if (isLensProp) {
+    initial = isPlainObject(res)
+      ? applyComputed(res, undefined, res[meta]?.computed)
+      : res;
+  }
+
+  return res;
+};
+
 const findLensAndCreate = (x, parentCtx: LensContext<any, any>) => {
   let res = x;
 
@@ -208,7 +1190,7 @@ const findLensAndCreate = (x, parentCtx: LensContext<any, any>) => {
     );
 
     keys.forEach((k) => {
-      let v = x[k];
+      const v = x[k];
 
       // Symbol props are only for storing metadata
       if (typeof k === "symbol") {
@@ -216,47 +1198,7 @@ const findLensAndCreate = (x, parentCtx: LensContext<any, any>) => {
         return;
       }
 
-      let nextSet = parentCtx.set;
-      let nextGet = parentCtx.get;
-      let nextRelativePath = parentCtx.relativePath.concat(k);
-
-      if (isLens(v)) {
-        // partial context
-        // `lens` will update it with `set` and `get`
-        const lensCtx: LensContext<any, any> = {
-          set: undefined as any, // will be set by `lens` function
-          get: undefined as any, // see `set`
-          api: parentCtx.api,
-          rootPath: parentCtx.rootPath.concat(k),
-          relativePath: parentCtx.relativePath.concat(k),
-          atomic:
-            parentCtx.atomic === atomicStub
-              ? atomicStubWithWarning
-              : parentCtx.atomic,
-        };
-
-        let setterFn: any = (x) => x();
-
-        const set = (...args) =>
-          parentCtx.atomic(() =>
-            setterFn(() => (parentCtx.set as any)(...args), lensCtx)
-          );
-
-        v = v(set, parentCtx.get, parentCtx.api, lensCtx);
-        if (v[meta]?.setter) setterFn = v[meta].setter;
-        nextSet = lensCtx.set;
-        nextGet = lensCtx.get;
-        nextRelativePath = [];
-      }
-
-      res[k] = findLensAndCreate(v, {
-        set: nextSet,
-        get: nextGet,
-        api: parentCtx.api,
-        rootPath: parentCtx.rootPath.concat(k),
-        relativePath: nextRelativePath,
-        atomic: parentCtx.atomic,
-      });
+      res[k] = createProp(k, v, parentCtx);
     });
   }
 
@@ -275,36 +1217,105 @@ type CheckLenses<T, SA extends StoreApi<unknown>> = {
     : T[P];
 };
 
+export type WithLensesOptions = {
+  devtools?: boolean; // name `set` calls after lens path and action
+  onPatches?: (patches: JsonPatch[]) => void; // called after every state change
+  strict?: boolean; // freeze state and warn about `setState` calls, for development
+};
+
 type WithLensesImpl = <T>(
-  f: StateCreator<T, [], []> | T
+  f: StateCreator<T, [], []> | T,
+  options?: WithLensesOptions
 ) => StateCreator<T, [], []>;
 
-const withLensesImpl: WithLensesImpl = (config) => (set, get, api) => {
-  const atomic = api[storeContext]?.atomic ?? atomicStub;
-
-  let setterFn: any = (x) => x();
-
-  const setFn = (...args) =>
-    atomic(() => setterFn(() => (set as any)(...args), ctx));
+const withLensesImpl: WithLensesImpl =
+  (config, options = {}) =>
+  (set, get, api) => {
+    const storeCtx = getStoreContext(api);
+    const atomic = storeCtx.atomic ?? atomicStub;
+    const endCreate = beginCreate(api);
+
+    storeCtx.devtools = options.devtools;
+    storeCtx.strict = options.strict;
+    storeCtx.actions = [];
+    storeCtx.listeners = [];
+
+    let isListening = false;
+    storeCtx.listen = () => {
+      if (isListening) return;
+      isListening = true;
+
+      api.subscribe((state, prevState) => {
+        if (options.strict) {
+          deepFreeze(state);
+          if (storeCtx.isLensSet) storeCtx.lensState = state;
+          else
+            checkDirectWrites(storeCtx, state, storeCtx.lensState ?? prevState);
+        }
 
-  const [_set] = createLens(setFn, get, undefined as any); // use pathless overload
+        emitPatches(storeCtx, state, prevState, options.onPatches);
+        emitChanges(storeCtx, state, prevState);
+      });
+    };
+
+    // otherwise, the store is subscribed when a lens with listeners is created
+    if (options.strict || options.onPatches) storeCtx.listen();
+
+    let setterFn: any = (x) => x();
+
+    const setFn = (...args) =>
+      recordSet(storeCtx, ctx, args, () =>
+        atomic(() =>
+          setterFn(() => {
+            const prev = get();
+            try {
+              runLensSet(storeCtx, get, () =>
+                (set as any)(...withActionName(storeCtx, [], args))
+              );
+            } catch (e) {
+              if (!isLoggedError(e)) throw e;
+              console.error(e);
+            }
+            return lazyChanges(prev, get());
+          }, ctx)
+        )
+      );
+
+    const [_set] = createLens(setFn, get, undefined as any); // use pathless overload
+
+    const ctx: LensContext<any, any> = {
+      set: _set as Setter<unknown>,
+      get,
+      api,
+      rootPath: [],
+      relativePath: [],
+      atomic,
+      subscribe: undefined as any, // see below
+      transaction: undefined as any, // see below
+      reset: undefined as any, // see below
+      parent: undefined as any, // see below
+      ref: undefined as any, // see below
+      onUnmount: undefined as any, // see below
+    };
+
+    ctx.subscribe = createSubscribe(ctx, []);
+    ctx.transaction = createTransaction(ctx);
+    ctx.reset = createReset(ctx, () => res);
+    ctx.parent = createParent(ctx);
+    ctx.ref = createRef(ctx);
+    ctx.onUnmount = createOnUnmount([]); // root is never unmounted
+    storeCtx.lenses = [{ ctx, dispose() {} }];
 
-  const ctx = {
-    set: _set,
-    get,
-    api,
-    rootPath: [],
-    relativePath: [],
-    atomic,
+    // @ts-ignore
+    const obj = typeof config === "function" ? config(_set, get, api) : config;
+    const res = findLensAndCreate(obj, ctx);
+    if (isPlainObject(res)) applyComputed(res, undefined, res[meta]?.computed);
+    if (res[meta]?.setter) setterFn = res[meta].setter;
+    if (hasListeners(res)) addListener(storeCtx, storeCtx.lenses[0]);
+    endCreate(res);
+    return options.strict ? deepFreeze(res) : res;
   };
 
-  // @ts-ignore
-  const obj = typeof config === "function" ? config(_set, get, api) : config;
-  const res = findLensAndCreate(obj, ctx);
-  if (res[meta]?.setter) setterFn = res[meta].setter;
-  return res;
-};
-
 type WithLenses = <
   T,
   Mps extends [StoreMutatorIdentifier, unknown][] = [],
@@ -317,11 +1328,591 @@ type WithLenses = <
         Mps,
         Mcs,
         CheckLenses<T & LensMeta<T, unknown>, Mutate<StoreApi<T>, Mps>>
-      >
+      >,
+  options?: WithLensesOptions
 ) => StateCreator<T, Mps, Mcs>;
 
 export const withLenses = withLensesImpl as unknown as WithLenses;
 
+// dynamic lenses
+
+const removeIn = (x, path: ReadonlyArray<PathKey>) => {
+  const [k, ...rest] = path;
+  if (!isObject(x) || !(k in x)) return x;
+
+  if (rest.length) {
+    const v = removeIn(x[k], rest);
+    return v === x[k] ? x : setIn(x, [k], v);
+  }
+
+  if (Array.isArray(x)) return x.filter((_, i) => i !== Number(k));
+
+  const { [k]: _, ...res } = x as any;
+  return res;
+};
+
+const getLensRecords = (api) => {
+  const { lenses } = getStoreContext(api);
+  if (!lenses) throw new Error("Store must use `withLenses` middleware.");
+  return lenses;
+};
+
+// the closest lens (or root) which contains `path`
+const findOwner = (lenses: LensRecord[], path: ReadonlyArray<PathKey>) =>
+  lenses.reduce((a, b) =>
+    isPathPrefix(b.ctx.rootPath, path) &&
+    b.ctx.rootPath.length > a.ctx.rootPath.length
+      ? b
+      : a
+  );
+
+const disposeLenses = (lenses: LensRecord[], path: ReadonlyArray<PathKey>) => {
+  for (let i = lenses.length - 1; i >= 0; i--) {
+    if (isPathPrefix(path, lenses[i].ctx.rootPath)) {
+      lenses[i].dispose();
+      lenses.splice(i, 1);
+    }
+  }
+};
+
+const normalizePath = (path: PathKey | ReadonlyArray<PathKey>) => {
+  const normPath = Array.isArray(path) ? path : [path];
+  if (!normPath.length) throw new Error("Path must not be empty.");
+  return normPath;
+};
+
+// creates `x` at `path` using `owner` lens as a parent
+const createPropAt = (
+  owner: LensContext<any, any>,
+  path: ReadonlyArray<PathKey>,
+  x
+) =>
+  createProp(path[path.length - 1], x, {
+    set: owner.set,
+    get: owner.get,
+    api: owner.api,
+    rootPath: path.slice(0, -1),
+    relativePath: path.slice(owner.rootPath.length, -1),
+    atomic: getStoreContext(owner.api).atomic ?? atomicStub,
+    subscribe: owner.subscribe,
+    transaction: owner.transaction,
+    reset: owner.reset,
+    parent: owner.parent,
+    ref: owner.ref,
+    onUnmount: owner.onUnmount,
+  });
+
+export function mountLens(
+  api: StoreApi<any>,
+  path: PathKey | ReadonlyArray<PathKey>,
+  x: unknown
+): () => void {
+  const normPath = normalizePath(path);
+  const lenses = getLensRecords(api);
+
+  recordCall(
+    getStoreContext(api),
+    () => ({ type: "mount", path: normPath.slice(), time: Date.now() }),
+    () => {
+      disposeLenses(lenses, normPath);
+
+      const owner = findOwner(lenses, normPath.slice(0, -1)).ctx;
+      const endCreate = beginCreate(api);
+      const value = createPropAt(owner, normPath, x);
+      const relativePath = normPath.slice(owner.rootPath.length);
+
+      (owner.set as any)((s) => setIn(s, relativePath, value), true);
+      endCreate(owner.api.getState());
+    }
+  );
+
+  return () => unmountLens(api, normPath);
+}
+
+export function unmountLens(
+  api: StoreApi<any>,
+  path: PathKey | ReadonlyArray<PathKey>
+) {
+  const normPath = normalizePath(path);
+  const lenses = getLensRecords(api);
+
+  recordCall(
+    getStoreContext(api),
+    () => ({ type: "unmount", path: normPath.slice(), time: Date.now() }),
+    () => {
+      disposeLenses(lenses, normPath);
+
+      const owner = findOwner(lenses, normPath.slice(0, -1));
+      const relativePath = normPath.slice(owner.ctx.rootPath.length);
+
+      (owner.ctx.set as any)((s) => removeIn(s, relativePath), true);
+    }
+  );
+}
+
+// json patch (rfc 6902)
+
+export type JsonPatch =
+  | { op: "add" | "replace" | "test"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "move" | "copy"; from: string; path: string };
+
+const toPointer = (path: ReadonlyArray<PathKey>) =>
+  path
+    .map((k) => "/" + String(k).replace(/~/g, "~0").replace(/\//g, "~1"))
+    .join("");
+
+const fromPointer = (pointer: string): string[] =>
+  pointer
+    ? pointer
+        .slice(1)
+        .split("/")
+        .map((k) => k.replace(/~1/g, "/").replace(/~0/g, "~"))
+    : [];
+
+// functions are not serializable, so they are skipped
+const hasData = (x, k) => k in x && typeof x[k] !== "function";
+
+type DiffFn = (
+  op: "add" | "remove" | "replace",
+  path: PathKey[],
+  value?: unknown
+) => void;
+
+// skips equal references, so only changed branches are visited
+// `path` is reused while visiting, `fn` receives copies
+const diff = (a, b, path: PathKey[], fn: DiffFn) => {
+  if (Object.is(a, b)) return;
+
+  const visit = (k: PathKey) => {
+    path.push(k);
+    diff(a[k], b[k], path, fn);
+    path.pop();
+  };
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const n = Math.min(a.length, b.length);
+    for (let i = 0; i < n; i++) visit(i);
+    for (let i = n; i < b.length; i++) fn("add", path.concat(i), b[i]);
+    for (let i = a.length - 1; i >= n; i--) fn("remove", path.concat(i));
+    return;
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    Object.keys(a).forEach((k) => {
+      if (hasData(a, k) && !hasData(b, k)) fn("remove", path.concat(k));
+    });
+    Object.keys(b).forEach((k) => {
+      if (!hasData(b, k)) return;
+      if (hasData(a, k)) visit(k);
+      else fn("add", path.concat(k), b[k]);
+    });
+    return;
+  }
+
+  fn("replace", path.slice(), b);
+};
+
+export function createPatches(
+  prev: unknown,
+  next: unknown,
+  path: ReadonlyArray<PathKey> = [] // prefix for patch paths
+): JsonPatch[] {
+  const res: JsonPatch[] = [];
+  diff(prev, next, path.slice(), (op, path, value) =>
+    res.push(
+      op === "remove"
+        ? { op, path: toPointer(path) }
+        : { op, path: toPointer(path), value: toData(value) }
+    )
+  );
+  return res;
+}
+
+const emitPatches = (
+  storeCtx: StoreContext,
+  state,
+  prevState,
+  onPatches?: (patches: JsonPatch[]) => void
+) => {
+  const listeners = (storeCtx.listeners ?? [])
+    .map((x) => ({
+      prefix: toPointer(x.ctx.rootPath),
+      fn: getIn(state, x.ctx.rootPath)?.[meta]?.onPatches,
+    }))
+    .filter((x) => x.fn);
+
+  if (!onPatches && !listeners.length) return;
+
+  const patches = createPatches(prevState, state);
+  if (!patches.length) return;
+
+  onPatches?.(patches);
+
+  listeners.forEach(({ prefix, fn }) => {
+    const own = patches.filter(
+      (x) => x.path === prefix || x.path.indexOf(prefix + "/") === 0
+    );
+    if (own.length) fn(own);
+  });
+};
+
+// immutably applies a single operation
+const patchIn = (
+  x,
+  keys: string[],
+  op: "add" | "remove" | "replace",
+  value?
+) => {
+  const [k, ...rest] = keys;
+  const isArray = Array.isArray(x);
+  const i: any = isArray ? (k === "-" ? x.length : Number(k)) : k;
+
+  if (rest.length) {
+    const v = patchIn(x[i], rest, op, value);
+    return isArray
+      ? x.map((item, j) => (j === i ? v : item))
+      : { ...x, [k]: v };
+  }
+
+  if (isArray) {
+    const res = x.slice();
+    if (op === "add") res.splice(i, 0, value);
+    else if (op === "remove") res.splice(i, 1);
+    else res[i] = value;
+    return res;
+  }
+
+  const res = { ...x };
+  if (op === "remove") delete res[k];
+  else res[k] = value;
+  return res;
+};
+
+type PatchFn = (
+  path: string[],
+  op: "add" | "remove" | "replace",
+  value?
+) => void;
+
+const hasIn = (x, keys: ReadonlyArray<string>) =>
+  keys.every((k) => {
+    if (!isObject(x) || !Object.prototype.hasOwnProperty.call(x, k))
+      return false;
+    x = x[k];
+    return true;
+  });
+
+// RFC 6902: `add` needs an existing parent, other operations need an existing value
+const checkPath = (state, path: string[], op: "add" | "remove" | "replace") => {
+  const parentPath = path.slice(0, -1);
+  const parent = getIn(state, parentPath);
+  const k = path[path.length - 1];
+
+  const isValid =
+    op !== "add"
+      ? hasIn(state, path)
+      : hasIn(state, parentPath) &&
+        (Array.isArray(parent)
+          ? k === "-" || Number(k) <= parent.length
+          : isPlainObject(parent));
+
+  if (!isValid)
+    throw new Error(`Patch path "${toPointer(path)}" doesn't exist.`);
+};
+
+// calls `apply` for every operation, `getState` must return patched state
+const runPatches = (
+  patches: ReadonlyArray<JsonPatch>,
+  getState: () => unknown,
+  apply: PatchFn
+) =>
+  patches.forEach((p) => {
+    const path = fromPointer(p.path);
+
+    const patch: PatchFn = (path, op, value?) => {
+      if (!path.length) throw new Error("Can't patch the root of the state.");
+      checkPath(getState(), path, op);
+      apply(path, op, toData(value)); // functions of other stores must not leak
+    };
+
+    switch (p.op) {
+      case "add":
+      case "replace":
+        return patch(path, p.op, p.value);
+
+      case "remove":
+        return patch(path, "remove");
+
+      case "copy":
+      case "move": {
+        const from = fromPointer(p.from);
+        const value = getIn(getState(), from);
+        if (p.op === "move") patch(from, "remove");
+        return patch(path, "add", value);
+      }
+
+      case "test":
+        if (
+          JSON.stringify(getIn(getState(), path)) !== JSON.stringify(p.value)
+        ) {
+          throw new Error(`Patch test failed at "${p.path}".`);
+        }
+    }
+  });
+
+// applies patches with `set` functions of lenses which own patched paths
+export function applyPatches(
+  api: StoreApi<any>,
+  patches: ReadonlyArray<JsonPatch>
+): void {
+  const lenses = getLensRecords(api);
+  const atomic = getStoreContext(api).atomic ?? atomicStub;
+
+  // all or nothing: run `test` operations and check paths before any `set`
+  let state = api.getState();
+  runPatches(
+    patches,
+    () => state,
+    (path, op, value) => (state = patchIn(state, path, op, value))
+  );
+
+  const apply: PatchFn = (path, op, value) => {
+    // a lens at the path keeps its functions and nested lenses
+    const target = findOwner(lenses, path).ctx;
+    if (op !== "remove" && target.rootPath.length === path.length) {
+      (target.set as any)((s) => withFunctions(s, value), true);
+      return;
+    }
+
+    const owner = findOwner(lenses, path.slice(0, -1)).ctx;
+    const relativePath = path.slice(owner.rootPath.length);
+
+    disposeLenses(lenses, path);
+
+    // collection items are created with collection's factory
+    const collection = getIn(api.getState(), path.slice(0, -2));
+    const factory = collection?.[itemFactory];
+
+    if (op !== "remove" && factory && path[path.length - 2] === "items") {
+      const endCreate = beginCreate(api);
+      const item = createPropAt(owner, path, factory(path[path.length - 1]));
+      const res = isPlainObject(value) ? { ...item, ...value } : item;
+
+      (owner.set as any)((s) => patchIn(s, relativePath, op, res), true);
+      endCreate(api.getState());
+      return;
+    }
+
+    (owner.set as any)((s) => patchIn(s, relativePath, op, value), true);
+  };
+
+  atomic(() => runPatches(patches, api.getState, apply), { rollback: true });
+}
+
+// changes
+
+export type Changes = {
+  keys: string[]; // changed, added and removed keys of a lens state
+  paths: PathKey[][]; // the same at any depth, relative to a lens
+};
+
+const diffChanges = (prev, next): Changes => {
+  const paths: PathKey[][] = [];
+  diff(prev, next, [], (op, path) => paths.push(path));
+
+  const keys: string[] = [];
+  paths.forEach(([k]) => {
+    if (k !== undefined && keys.indexOf(String(k)) === -1) keys.push(String(k));
+  });
+
+  return { keys, paths };
+};
+
+// changes returned by `next` of `[meta].setter`, computed on first access
+const lazyChanges = (prev, next): Changes => {
+  let res: Changes | undefined;
+  const get = () => res ?? (res = diffChanges(prev, next));
+
+  return {
+    get keys() {
+      return get().keys;
+    },
+    get paths() {
+      return get().paths;
+    },
+  };
+};
+
+// states passed to `postprocess`, changes are computed on demand
+const postprocessChanges = new WeakMap<object, () => Changes>();
+
+const withChanges = <T extends object>(state: T, fn: () => Changes) => {
+  let changes: Changes | undefined;
+  postprocessChanges.set(state, () => changes ?? (changes = fn()));
+  return state;
+};
+
+// returns changes made by the current `set` call, for `postprocess`
+export function getChanges(state: object): Changes {
+  const fn = postprocessChanges.get(state);
+  if (!fn) {
+    throw new Error(
+      "`getChanges` must be called with a state passed to `postprocess`."
+    );
+  }
+  return fn();
+}
+
+// immer drafts of nested objects are new objects, so they are always reported
+const diffDraftChanges = (original, draft): Changes => {
+  const keys = Object.keys(draft).filter(
+    (k) =>
+      hasData(draft, k) &&
+      !(hasData(original, k) && Object.is(original[k], draft[k]))
+  );
+  Object.keys(original).forEach((k) => {
+    if (hasData(original, k) && !hasData(draft, k)) keys.push(k);
+  });
+
+  return { keys, paths: keys.map((k) => [k]) };
+};
+
+const hasListeners = (x) => !!(x?.[meta]?.onChange || x?.[meta]?.onPatches);
+
+// returns a function which removes the listener
+const addListener = (storeCtx: StoreContext, record: LensRecord) => {
+  const { listeners } = storeCtx;
+  if (!listeners) return () => {}; // lens is created outside of `withLenses`
+
+  listeners.push(record);
+  storeCtx.listen!();
+
+  return () => {
+    const i = listeners.indexOf(record);
+    if (i !== -1) listeners.splice(i, 1);
+  };
+};
+
+// called once per commit, so changes of an atomic block are reported together
+const emitChanges = (storeCtx: StoreContext, state, prevState) =>
+  (storeCtx.listeners ?? []).forEach(({ ctx }) => {
+    const next = getIn(state, ctx.rootPath);
+    const prev = getIn(prevState, ctx.rootPath);
+    const onChange = next?.[meta]?.onChange;
+    if (!onChange || next === prev) return;
+
+    const changes = diffChanges(prev, next);
+    if (changes.paths.length) onChange(changes, next, prev);
+  });
+
+// lens collections
+
+export type LensMap<T> = {
+  items: Readonly<Record<string, T>>;
+  keys: ReadonlyArray<string>;
+
+  add(key: string, initial?: Partial<T>): void;
+  remove(key: string): void;
+  values(): T[];
+};
+
+export type LensList<T> = LensMap<T> & {
+  add(key: string, initial?: Partial<T>, index?: number): void;
+  move(key: string, index: number): void;
+};
+
+type LensFactory<T> =
+  | LensOpaqueType<T, any>
+  | ((key: string) => LensOpaqueType<T, any>);
+
+// creates lens for an item, used by `applyPatches`
+const itemFactory = Symbol("item factory");
+
+const lensCollection = (factory: LensFactory<any>) =>
+  lens<LensList<any>>((set, get, _api, ctx) => {
+    const itemPath = (key: string) => ctx.rootPath.concat("items", key);
+    const createItem = (key: string) =>
+      isLens(factory) ? factory : factory(key);
+
+    const record = (action: RecordedCall["action"], args: unknown[], fn) =>
+      recordCall(
+        getStoreContext(ctx.api),
+        () => ({
+          type: "call",
+          path: ctx.rootPath.slice(),
+          action,
+          args: toData(args),
+          time: Date.now(),
+        }),
+        fn
+      );
+
+    const move = (keys: ReadonlyArray<string>, key: string, index: number) => {
+      const res = keys.filter((k) => k !== key);
+      res.splice(index, 0, key);
+      return res;
+    };
+
+    return {
+      items: {},
+      keys: [],
+
+      add(key, initial, index = get().keys.length) {
+        record("add", [key, initial, index], () => {
+          disposeLenses(getLensRecords(ctx.api), itemPath(key));
+
+          const endCreate = beginCreate(ctx.api);
+          const item = createPropAt(ctx, itemPath(key), createItem(key));
+
+          set((s) => ({
+            items: {
+              ...s.items,
+              [key]: initial ? { ...item, ...initial } : item,
+            },
+            keys: move(s.keys, key, index),
+          }));
+
+          endCreate(ctx.api.getState());
+        });
+      },
+
+      remove(key) {
+        if (!(key in get().items)) return;
+
+        record("remove", [key], () => {
+          disposeLenses(getLensRecords(ctx.api), itemPath(key));
+
+          set((s) => ({
+            items: removeIn(s.items, [key]),
+            keys: s.keys.filter((k) => k !== key),
+          }));
+        });
+      },
+
+      move(key, index) {
+        if (!(key in get().items)) return;
+
+        set((s) => ({ keys: move(s.keys, key, index) }));
+      },
+
+      values() {
+        const { items, keys } = get();
+        return keys.map((k) => items[k]);
+      },
+
+      [itemFactory]: createItem,
+    };
+  });
+
+export const lensMap = lensCollection as <T, S = unknown>(
+  factory: LensFactory<T>
+) => LensOpaqueType<LensMap<T>, S>;
+
+export const lensList = lensCollection as <T, S = unknown>(
+  factory: LensFactory<T>
+) => LensOpaqueType<LensList<T>, S>;
+
 // atomic
 
 const atomicStub = (fn) => fn();
@@ -331,22 +1922,36 @@ const atomicStubWithWarning = (fn) => {
   return atomicStub(fn);
 };
 
-type AtomicImpl = <T>(f: StateCreator<T, [], []>) => StateCreator<T, [], []>;
+type AtomicImpl = <T>(
+  f: StateCreator<T, [], []>,
+  options?: AtomicOptions
+) => StateCreator<T, [], []>;
 
-const atomicImpl: AtomicImpl = (config) => (set, get, api) => {
+const atomicImpl: AtomicImpl = (config, defaults) => (set, get, api) => {
   const tempStore = createStore(get);
   let counter = 0;
+  let isFailed = false;
+
+  const atomic = (fn, options?: AtomicOptions) => {
+    const rollback = options?.rollback ?? defaults?.rollback;
 
-  const atomic = (fn) => {
     if (++counter === 1) {
       tempStore.setState(get());
+      isFailed = false;
     }
 
     try {
       fn();
+    } catch (e) {
+      if (rollback && !isLoggedError(e)) isFailed = true;
+      throw e;
     } finally {
       if (--counter === 0) {
-        set(tempStore.getState());
+        if (isFailed) {
+          tempStore.setState(get(), true);
+        } else {
+          set(tempStore.getState(), true);
+        }
       }
     }
   };
@@ -357,14 +1962,12 @@ const atomicImpl: AtomicImpl = (config) => (set, get, api) => {
 
   const _get = () => (counter ? tempStore.getState() : get());
 
+  getStoreContext(api).atomic = atomic;
+
   return config(_set, _get, {
-    ...api,
+    ...api, // also copies store context
     setState: _set,
     getState: _get,
-    // @ts-ignore
-    [storeContext]: {
-      atomic,
-    },
   });
 };
 
@@ -373,7 +1976,8 @@ type Atomic = <
   Mps extends [StoreMutatorIdentifier, unknown][] = [],
   Mcs extends [StoreMutatorIdentifier, unknown][] = []
 >(
-  f: StateCreator<T, Mps, Mcs>
+  f: StateCreator<T, Mps, Mcs>,
+  options?: AtomicOptions
 ) => StateCreator<T, Mps, Mcs>;
 
 export const atomic = atomicImpl as Atomic;
@@ -1,13 +1,25 @@
 import { PersistOptions } from "zustand/middleware";
-import { mergeDeep, objectMap, isPlainObject } from "@dhmk/utils";
+import { createStore, StoreApi } from "zustand/vanilla";
+import { mergeDeep, objectMap, isPlainObject, shallowEqual } from "@dhmk/utils";
 import {
   Getter,
   ResolveStoreApi,
   LensMetaProps,
   LensContext,
   Lens,
+  Setter,
   SetParameter,
+  ValidationIssue,
+  LensMeta,
+  LensOpaqueType,
+  PathKey,
+  Changes,
+  lens,
+  meta,
+  withLenses,
+  mountLens,
 } from "./core";
+import { toData, withFunctions } from "./utils";
 
 export { mergeDeep } from "@dhmk/utils";
 
@@ -35,57 +47,591 @@ export const namedSetter = customSetter(
   fn: (...args: CustomSetter<NamedSet<T>, T, S>) => T
 ) => Lens<T, S>;
 
-export function subscribe<T, U>(
-  store: { subscribe: (fn: (s: T) => any) => any; getState(): T },
-  selector: (state: T) => U,
-  effect: (state: U, prevState: U) => void,
-  options: {
-    equalityFn?: (a: U, b: U) => boolean;
-    fireImmediately?: boolean;
-  } = {}
-) {
-  const { equalityFn = Object.is, fireImmediately = false } = options;
+export type UndoableState = {
+  canUndo: boolean;
+  canRedo: boolean;
 
-  let curr = selector(store.getState());
+  undo(): void;
+  redo(): void;
+  clear(): void;
+};
 
-  if (fireImmediately) effect(curr, curr);
+export type UndoableOptions<T> = {
+  limit?: number; // max number of undo (and redo) steps
+  exclude?: ReadonlyArray<keyof T>; // keys which are not tracked
+};
 
-  return store.subscribe((state) => {
-    const next = selector(state);
-    if (!equalityFn(next, curr)) {
-      const prev = curr;
-      effect((curr = next), prev);
-    }
+const undoableKeys = ["canUndo", "canRedo", "undo", "redo", "clear"];
+
+export const undoable = ((fn: Lens<any>, options: UndoableOptions<any> = {}) =>
+  (
+    set: Setter<any>,
+    get: Getter<any>,
+    api: ResolveStoreApi<any>,
+    ctx: LensContext<any, any>
+  ) => {
+    const { limit = 100, exclude = [] } = options;
+
+    let past: object[] = [];
+    let future: object[] = [];
+    let isRestoring = false;
+
+    const snapshot = (x) => {
+      const res = {};
+      Object.keys(x).forEach((k) => {
+        if (
+          typeof x[k] !== "function" &&
+          exclude.indexOf(k) === -1 &&
+          undoableKeys.indexOf(k) === -1
+        )
+          res[k] = x[k];
+      });
+      return res;
+    };
+
+    const flags = () => ({
+      canUndo: past.length > 0,
+      canRedo: future.length > 0,
+    });
+
+    const push = (stack: object[], x: object) => {
+      stack.push(x);
+      if (stack.length > limit) stack.shift();
+    };
+
+    const restore = (from: object[], to: object[]) => {
+      const x = from.pop();
+      if (!x) return;
+
+      push(to, snapshot(get()));
+
+      isRestoring = true;
+      try {
+        set((s) => {
+          const res = { ...s };
+          Object.keys(snapshot(s)).forEach((k) => delete res[k]);
+          return Object.assign(res, x, flags());
+        }, true);
+      } finally {
+        isRestoring = false;
+      }
+    };
+
+    // atomic middleware notifies once per atomic block, so it becomes a single history entry
+    ctx.subscribe(
+      (state) => state,
+      (next, prev) => {
+        if (isRestoring || !next || !prev) return;
+
+        const prevSnapshot = snapshot(prev);
+        if (shallowEqual(prevSnapshot, snapshot(next))) return;
+
+        push(past, prevSnapshot);
+        future = [];
+        set(flags());
+      }
+    );
+
+    return {
+      ...fn(set, get, api, ctx),
+
+      canUndo: false,
+      canRedo: false,
+
+      undo() {
+        restore(past, future);
+      },
+
+      redo() {
+        restore(future, past);
+      },
+
+      clear() {
+        past = [];
+        future = [];
+        set(flags());
+      },
+    };
+  }) as <T, S = any>(
+  fn: Lens<T, S>,
+  options?: UndoableOptions<T>
+) => Lens<T & UndoableState, S>;
+
+export type SyncTransport = {
+  postMessage(message: unknown): void;
+  subscribe(listener: (message: unknown) => void): () => void;
+  close?(): void; // called when the lens is unmounted
+};
+
+export type SyncOptions<T> = {
+  channel: string;
+  transport?: (channel: string) => SyncTransport; // `BroadcastChannel` by default
+  exclude?: ReadonlyArray<keyof T>; // keys which are not synced
+  // which remote changes to apply
+  conflict?:
+    | "last-write-wins"
+    | "remote"
+    | ((local: T, remote: Partial<T>) => Partial<T> | void);
+};
+
+type SyncMessage = {
+  origin: string;
+  clock: number;
+  changes: object;
+};
+
+export const broadcastChannelTransport = (channel: string): SyncTransport => {
+  const bc = new BroadcastChannel(channel);
+
+  return {
+    postMessage: (message) => bc.postMessage(message),
+    subscribe(listener) {
+      const fn = (e: MessageEvent) => listener(e.data);
+      bc.addEventListener("message", fn);
+      return () => bc.removeEventListener("message", fn);
+    },
+    close: () => bc.close(),
+  };
+};
+
+// connects transports which are created by the same factory, for tests
+export const createMemoryTransport = () => {
+  const listeners: Array<{ channel: string; fn: (message: unknown) => void }> =
+    [];
+
+  return (channel: string): SyncTransport => {
+    const own: Array<(message: unknown) => void> = [];
+
+    return {
+      postMessage: (message) =>
+        listeners
+          .filter((x) => x.channel === channel && own.indexOf(x.fn) === -1)
+          .forEach((x) => x.fn(message)),
+
+      subscribe(fn) {
+        const listener = { channel, fn };
+        listeners.push(listener);
+        own.push(fn);
+
+        return () => {
+          listeners.splice(listeners.indexOf(listener), 1);
+          own.splice(own.indexOf(fn), 1);
+        };
+      },
+    };
+  };
+};
+
+export const synced = ((fn: Lens<any>, options: SyncOptions<any>) =>
+  (
+    set: Setter<any>,
+    get: Getter<any>,
+    api: ResolveStoreApi<any>,
+    ctx: LensContext<any, any>
+  ) => {
+    const {
+      channel,
+      transport = broadcastChannelTransport,
+      exclude = [],
+      conflict = "last-write-wins",
+    } = options;
+
+    const origin = Math.random().toString(36).slice(2);
+    const t = transport(channel);
+
+    // lamport clock, compared together with origin
+    let clock = 0;
+    const versions: Record<string, [number, string]> = {};
+    let isApplying = false;
+
+    const isNewer = (a: [number, string], b?: [number, string]) =>
+      !b || a[0] > b[0] || (a[0] === b[0] && a[1] > b[1]);
+
+    // functions can't be posted (e.g. nested lenses), they are kept on receive
+    const changes = (next, prev) => {
+      const res = {};
+      Object.keys(next).forEach((k) => {
+        if (
+          typeof next[k] !== "function" &&
+          exclude.indexOf(k) === -1 &&
+          next[k] !== prev[k]
+        )
+          res[k] = toData(next[k]);
+      });
+      return res;
+    };
+
+    ctx.subscribe(
+      (state) => state,
+      (next, prev) => {
+        if (isApplying || !next || !prev) return;
+
+        const res = changes(next, prev);
+        const keys = Object.keys(res);
+        if (!keys.length) return;
+
+        clock++;
+        keys.forEach((k) => (versions[k] = [clock, origin]));
+
+        const message: SyncMessage = { origin, clock, changes: res };
+        t.postMessage(message);
+      }
+    );
+
+    const unsubscribe = t.subscribe((message) => {
+      const {
+        origin: from,
+        clock: time,
+        changes: data,
+      } = message as SyncMessage;
+      clock = Math.max(clock, time);
+
+      const current = get();
+      const changes = {};
+      Object.keys(data).forEach(
+        (k) => (changes[k] = withFunctions(current[k], data[k]))
+      );
+
+      let res: object | void = {};
+
+      if (conflict === "last-write-wins") {
+        Object.keys(changes).forEach((k) => {
+          if (isNewer([time, from], versions[k])) {
+            versions[k] = [time, from];
+            res![k] = changes[k];
+          }
+        });
+      } else if (conflict === "remote") {
+        res = changes;
+      } else {
+        res = conflict(get(), changes);
+      }
+
+      if (!res || !Object.keys(res).length) return;
+
+      isApplying = true;
+      try {
+        set(res);
+      } finally {
+        isApplying = false;
+      }
+    });
+
+    ctx.onUnmount(() => {
+      unsubscribe();
+      t.close?.();
+    });
+
+    return fn(set, get, api, ctx);
+  }) as <T, S = any>(fn: Lens<T, S>, options: SyncOptions<T>) => Lens<T, S>;
+
+export type ReducerLensState<T, A> = T & {
+  dispatch(action: A): void;
+};
+
+export const reducerLens = <
+  T extends object,
+  A extends { type: string },
+  S = unknown
+>(
+  reducer: (state: T, action: A) => T,
+  initialState: T & LensMeta<ReducerLensState<T, A>, S>
+): LensOpaqueType<ReducerLensState<T, A>, S> =>
+  lens<ReducerLensState<T, A>, S>((set) => ({
+    ...initialState,
+
+    // action is also passed to `postprocess` and to the root `set` (for devtools)
+    dispatch: (action) => set((s) => reducer(s, action) as any, false, action),
+  }));
+
+export type MachineAction<C, E> = (context: C, event: E) => Partial<C> | void;
+
+export type MachineTransition<St, C, E> =
+  | St
+  | {
+      target: St;
+      guard?: (context: C, event: E) => boolean;
+      action?: MachineAction<C, E>;
+    };
+
+export type MachineConfig<St extends string, E extends { type: string }, C> = {
+  initial: St;
+  context?: C;
+  states?: {
+    [K in St]?: {
+      entry?: MachineAction<C, E>;
+      exit?: MachineAction<C, E>;
+    };
+  };
+  transitions: {
+    [K in St]?: {
+      [T in E["type"]]?: MachineTransition<St, C, Extract<E, { type: T }>>;
+    };
+  };
+};
+
+export type MachineLensState<St, E, C> = {
+  state: St;
+  context: C;
+
+  send(event: E): boolean; // returns `false` if there is no valid transition
+  can(event: E): boolean;
+};
+
+export const machineLens = <
+  St extends string,
+  E extends { type: string },
+  C = undefined,
+  S = unknown
+>(
+  config: MachineConfig<St, E, C>
+): LensOpaqueType<MachineLensState<St, E, C>, S> =>
+  lens<MachineLensState<St, E, C>, S>((set, get) => {
+    const findTransition = (event: E) => {
+      const { state, context } = get();
+      const t = config.transitions[state]?.[event.type];
+      if (t === undefined) return;
+
+      const res = typeof t === "object" ? t : { target: t };
+      return !res.guard || res.guard(context, event) ? res : undefined;
+    };
+
+    const run = (
+      action: MachineAction<C, any> | undefined,
+      context: C,
+      event: E
+    ): C => {
+      const res = action?.(context, event);
+      return res ? { ...context, ...res } : context;
+    };
+
+    return {
+      state: config.initial,
+      context: config.context as C,
+
+      send(event) {
+        const t = findTransition(event);
+        if (!t) return false;
+
+        // transitions to the same state don't run exit and entry actions
+        const isExternal = t.target !== get().state;
+
+        let { context } = get();
+        if (isExternal)
+          context = run(config.states?.[get().state]?.exit, context, event);
+        context = run(t.action, context, event);
+        if (isExternal)
+          context = run(config.states?.[t.target]?.entry, context, event);
+
+        // single `set` notifies subscribers once
+        // event is passed to the root `set` (for devtools)
+        set({ state: t.target, context }, false, event);
+
+        return true;
+      },
+
+      can: (event) => !!findTransition(event),
+    };
   });
+
+// testing
+
+export type TestLensOptions<T> = {
+  initialState?: Partial<T>; // overrides state returned by the lens
+  rootState?: object; // other state of a new store
+  api?: StoreApi<any>; // existing store (with `withLenses`) instead of a new one
+  path?: ReadonlyArray<PathKey>; // where to mount the lens, default is ["test"]
+};
+
+export type TestLensCall<T> =
+  | {
+      type: "set";
+      partial: unknown;
+      replace: boolean | undefined;
+      args: unknown[];
+      state: T; // resulting state
+    }
+  | { type: "postprocess"; state: T; prevState: T; args: unknown[] }
+  | { type: "setter" };
+
+export type TestLens<T> = {
+  api: StoreApi<any>;
+  ctx: LensContext<T, any>;
+  readonly state: T;
+  set: Setter<T>;
+  get: Getter<T>;
+  calls: TestLensCall<T>[]; // in order of invocation
+};
+
+export function createTestLens<T, S = any>(
+  fn: Lens<T, S>,
+  options: TestLensOptions<T> = {}
+): TestLens<T> {
+  const { initialState, rootState = {}, path = ["test"] } = options;
+  const api = options.api ?? createStore(withLenses(rootState));
+  const calls: TestLensCall<T>[] = [];
+  let ctx: LensContext<T, any> = undefined as any;
+
+  mountLens(
+    api,
+    path,
+    lens<any>((set, get, api, lensCtx) => {
+      const loggedSet = (partial, replace?, ...args) => {
+        set(partial, replace, ...args);
+        calls.push({ type: "set", partial, replace, args, state: get() });
+      };
+
+      ctx = { ...lensCtx, set: loggedSet };
+
+      const res = {
+        ...fn(loggedSet, get, api as any, ctx as any),
+        ...initialState,
+      };
+      const { postprocess, setter } = res[meta] ?? {};
+
+      if (postprocess || setter) {
+        res[meta] = {
+          ...res[meta],
+          postprocess:
+            postprocess &&
+            ((state, prevState, ...args) => {
+              calls.push({ type: "postprocess", state, prevState, args });
+              return postprocess(state, prevState, ...args);
+            }),
+          setter:
+            setter &&
+            ((next, ctx) => {
+              calls.push({ type: "setter" });
+              setter(next, ctx);
+            }),
+        };
+      }
+
+      return res;
+    })
+  );
+
+  return {
+    api,
+    ctx,
+    get state() {
+      return ctx.get();
+    },
+    set: ctx.set as Setter<T>,
+    get: ctx.get,
+    calls,
+  };
 }
 
 type MetaSetter<T, S> = Exclude<LensMetaProps<T, S>["setter"], undefined>;
 
+export type WatchEffect<U> = (
+  state: U,
+  prevState: U,
+  signal: AbortSignal // aborted before the next run
+) => void | (() => void) | PromiseLike<unknown>;
+
+export type WatchOptions<U> = {
+  equalityFn?: (a: U, b: U) => boolean;
+  fireImmediately?: boolean;
+  debounce?: number; // ms
+  throttle?: number; // ms
+  scheduler?: "sync" | "microtask";
+};
+
 export function watch<T = any, U = any, S = any>(
   selector: (state: T) => U,
-  effect: (state: U, prevState: U) => void,
-  options: {
-    equalityFn?: (a: U, b: U) => boolean;
-    fireImmediately?: boolean;
-  } = {}
+  effect: WatchEffect<U>,
+  options: WatchOptions<U> = {}
 ): MetaSetter<T, S> {
-  const { equalityFn = Object.is, fireImmediately = false } = options;
+  const {
+    equalityFn = Object.is,
+    fireImmediately = false,
+    debounce,
+    throttle,
+    scheduler = "sync",
+  } = options;
+
+  let isInitialized = false;
+  let curr; // last selected value
+  let last; // value passed to the last `effect` call
+  let cleanup: (() => void) | undefined;
+  let controller: AbortController | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let isScheduled = false;
+  let isStopped = false;
+  let lastRunTime = 0;
+
+  const run = (force?: boolean) => {
+    timer = undefined;
+    isScheduled = false;
+    if (isStopped) return;
+
+    // value may return back before delayed run
+    if (!force && equalityFn(curr, last)) return;
+
+    const prev = last;
+    last = curr;
+
+    cleanup?.();
+    controller?.abort();
+    controller = new AbortController();
+    lastRunTime = Date.now();
+
+    const { signal } = controller;
+    const res = effect(curr, prev, signal);
+    cleanup = typeof res === "function" ? res : undefined;
+
+    if (res && typeof res === "object" && typeof res.then === "function") {
+      // errors of cancelled effects (e.g. `AbortError` from `fetch`) are expected
+      res.then(undefined, (e) => {
+        if (!signal.aborted) console.error(e);
+      });
+    }
+  };
 
-  let curr;
+  // the lens is unmounted
+  const stop = () => {
+    isStopped = true;
+    if (timer) clearTimeout(timer);
+    cleanup?.();
+    controller?.abort();
+  };
 
-  if (fireImmediately)
-    effect(undefined as unknown as U, undefined as unknown as U);
+  const schedule = () => {
+    if (debounce !== undefined) {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(run, debounce);
+    } else if (throttle !== undefined) {
+      if (timer) return;
+      const wait = lastRunTime + throttle - Date.now();
+      if (wait > 0) timer = setTimeout(run, wait);
+      else run();
+    } else if (scheduler === "microtask") {
+      if (isScheduled) return;
+      isScheduled = true;
+      Promise.resolve().then(() => run());
+    } else {
+      run();
+    }
+  };
+
+  if (fireImmediately) run(true);
 
   return function (set, ctx) {
-    if (!curr) curr = selector(ctx.get());
+    if (!isInitialized) {
+      isInitialized = true;
+      curr = last = selector(ctx.get());
+      ctx.onUnmount(stop);
+    }
 
     set();
 
     const next = selector(ctx.get());
 
     if (!equalityFn(next, curr)) {
-      const prev = curr;
-      effect((curr = next), prev);
+      curr = next;
+      schedule();
     }
   };
 }
@@ -95,25 +641,60 @@ export function combineWatchers<T, S>(
 ): MetaSetter<T, S> {
   let initialized;
 
-  const runWatchers = (ctx) => fns.forEach((fn) => fn(() => {}, ctx));
+  const runWatchers = (ctx, changes: Changes) =>
+    fns.forEach((fn) => fn(() => changes, ctx));
 
   return (set, ctx) => {
     if (!initialized) {
       initialized = true;
-      runWatchers(ctx);
+      runWatchers(ctx, { keys: [], paths: [] });
     }
 
-    set();
-
-    runWatchers(ctx);
+    runWatchers(ctx, set());
   };
 }
 
+// https://github.com/standard-schema/standard-schema
+export type StandardSchema = {
+  readonly "~standard": {
+    validate(value: unknown): StandardSchemaResult | PromiseLike<unknown>;
+  };
+};
+
+type StandardSchemaResult = {
+  readonly issues?: ReadonlyArray<{
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+  }>;
+};
+
+export const standardSchema =
+  (schema: StandardSchema) =>
+  (state: unknown): ValidationIssue[] | void => {
+    const res = schema["~standard"].validate(state);
+
+    if ("then" in res) {
+      throw new Error("Async schemas are not supported.");
+    }
+
+    return res.issues?.map((issue) => ({
+      path: (issue.path ?? []).map((x) => {
+        const k = typeof x === "object" ? x.key : x;
+        return typeof k === "number" ? k : String(k);
+      }),
+      message: issue.message,
+    }));
+  };
+
 const persist = Symbol("persist");
 
+const PERSIST_VERSION = "@dhmk/PERSIST_VERSION";
+
 export function persistOptions<T>(conf: {
   load?: (x: unknown) => T;
   save?: (x: T) => unknown;
+  version?: number;
+  migrate?: (persistedState: unknown, version: number) => unknown;
 }) {
   return {
     [persist]: conf,
@@ -124,22 +705,136 @@ function walk(x, fn) {
   return isPlainObject(x) ? objectMap(fn(x), (v) => walk(v, fn)) : x;
 }
 
-const zustandPersistOptions: Pick<
-  PersistOptions<any>,
-  "merge" | "partialize"
-> = {
+// migrates persisted subtrees whose version differs from the current one (top-down),
+// drops them if there is no `migrate` function
+function migrate(persisted, current) {
+  if (!isPlainObject(persisted) || !isPlainObject(current)) return persisted;
+
+  const conf = current[persist];
+  let res = persisted;
+
+  if (conf?.version !== undefined) {
+    const { [PERSIST_VERSION]: version = 0, ...rest } = persisted as any;
+
+    if (version === conf.version) res = rest;
+    else if (conf.migrate) res = conf.migrate(rest, version);
+    else return undefined;
+
+    if (!isPlainObject(res)) return res;
+  }
+
+  return Object.keys(res).reduce((acc, k) => {
+    const v = migrate(res[k], current[k]);
+    if (v !== undefined) acc[k] = v;
+    return acc;
+  }, {});
+}
+
+// codecs
+
+export type PersistCodec<T = any, E = any> = {
+  tag: string; // unique name which is saved with encoded value
+  test: (x: unknown) => boolean;
+  encode: (x: T) => E; // result is encoded too
+  decode: (x: E) => T;
+};
+
+const CODEC_TAG = "@dhmk/CODEC";
+
+export const persistCodecs = {
+  date: {
+    tag: "Date",
+    test: (x) => x instanceof Date,
+    encode: (x) => x.getTime(),
+    decode: (x) => new Date(x ?? NaN), // NaN is saved as `null`
+  } as PersistCodec<Date, number>,
+
+  map: {
+    tag: "Map",
+    test: (x) => x instanceof Map,
+    encode: (x) => Array.from(x.entries()),
+    decode: (x) => new Map(x),
+  } as PersistCodec<Map<unknown, unknown>, Array<[unknown, unknown]>>,
+
+  set: {
+    tag: "Set",
+    test: (x) => x instanceof Set,
+    encode: (x) => Array.from(x.values()),
+    decode: (x) => new Set(x),
+  } as PersistCodec<Set<unknown>, unknown[]>,
+
+  bigint: {
+    tag: "BigInt",
+    test: (x) => typeof x === "bigint",
+    encode: (x) => x.toString(),
+    decode: (x) => BigInt(x),
+  } as PersistCodec<bigint, string>,
+};
+
+const defaultCodecs = [
+  persistCodecs.date,
+  persistCodecs.map,
+  persistCodecs.set,
+  persistCodecs.bigint,
+];
+
+function encode(x, codecs: ReadonlyArray<PersistCodec>) {
+  const codec = codecs.find((c) => c.test(x));
+  if (codec) {
+    return { [CODEC_TAG]: codec.tag, value: encode(codec.encode(x), codecs) };
+  }
+
+  if (Array.isArray(x)) return x.map((v) => encode(v, codecs));
+  if (isPlainObject(x)) return objectMap(x, (v) => encode(v, codecs));
+  return x;
+}
+
+function decode(x, codecs: ReadonlyArray<PersistCodec>) {
+  if (Array.isArray(x)) return x.map((v) => decode(v, codecs));
+  if (!isPlainObject(x)) return x;
+
+  const tag = x[CODEC_TAG];
+  if (tag === undefined) return objectMap(x, (v) => decode(v, codecs));
+
+  const codec = codecs.find((c) => c.tag === tag);
+  if (!codec) throw new Error(`Unknown persist codec: "${tag}".`);
+
+  return codec.decode(decode(x["value"], codecs));
+}
+
+const createZustandPersistOptions = (
+  codecs: ReadonlyArray<PersistCodec>
+): Pick<PersistOptions<any>, "merge" | "partialize"> => ({
   merge(persistedState: any = {}, currentState) {
+    const decoded = codecs.length
+      ? decode(persistedState, codecs)
+      : persistedState;
+
     return walk(
-      mergeDeep(currentState, persistedState),
+      mergeDeep(currentState, migrate(decoded, currentState) ?? {}),
       (x) => x[persist]?.load?.(x) ?? x
     );
   },
 
   partialize(state) {
-    return walk(state, (x) => x[persist]?.save?.(x) ?? x);
+    const res = walk(state, (x) => {
+      const conf = x[persist];
+      const res = conf?.save?.(x) ?? x;
+
+      return conf?.version !== undefined && isPlainObject(res)
+        ? { ...res, [PERSIST_VERSION]: conf.version }
+        : res;
+    });
+
+    return codecs.length ? encode(res, codecs) : res;
   },
-};
+});
+
+const zustandPersistOptions = createZustandPersistOptions([]);
 
 // for typescript
 persistOptions.merge = zustandPersistOptions.merge;
 persistOptions.partialize = zustandPersistOptions.partialize;
+persistOptions.withCodecs = (
+  codecs: ReadonlyArray<PersistCodec> = defaultCodecs
+) => createZustandPersistOptions(codecs);
@@ -1,7 +1,11 @@
 import { createStore as create } from "zustand/vanilla";
-import { persist } from "zustand/middleware";
+import type { StateCreator } from "zustand/vanilla";
+import { persist, devtools } from "zustand/middleware";
 import { immer } from "zustand/middleware/immer";
 import { isDraft, produce } from "immer";
+import { createElement } from "react";
+import { act, create as render } from "react-test-renderer";
+import { useLens, createLensHooks } from "./react";
 import {
   createLens,
   lens,
@@ -13,6 +17,31 @@ import {
   persistOptions,
   meta,
   combineWatchers,
+  mountLens,
+  unmountLens,
+  lensMap,
+  lensList,
+  byId,
+  where,
+  undoable,
+  isValidationError,
+  standardSchema,
+  resetAll,
+  reducerLens,
+  machineLens,
+  prism,
+  Optic,
+  persistCodecs,
+  PersistCodec,
+  synced,
+  createMemoryTransport,
+  SyncOptions,
+  createTestLens,
+  createRecorder,
+  createReplayer,
+  applyPatches,
+  createPatches,
+  getChanges,
 } from "./";
 
 describe("createLens", () => {
@@ -168,6 +197,143 @@ describe("createLens", () => {
     iSet({ value: "ghi" }, false, "arg1", "arg2", "arg3");
     expect(iGet()).toMatchObject({ id: 123, value: "abcdefghi" });
   });
+
+  it("takes array indexes and predicates in `path`", () => {
+    type Todo = { id: number; title: string; tags: string[] };
+    type State = { todos: Todo[] };
+
+    let state: State = {
+      todos: [
+        { id: 1, title: "a", tags: ["x"] },
+        { id: 2, title: "b", tags: ["y"] },
+      ],
+    };
+
+    const set = (x) => (state = x(state));
+    const get = () => state;
+
+    const [setTodo, getTodo] = createLens(set, get, ["todos", 1]);
+    const todo: Todo = getTodo();
+    expect(todo.title).toBe("b");
+
+    setTodo({ title: "c" });
+    expect(Array.isArray(state.todos)).toBe(true);
+    expect(state.todos.map((x) => x.title)).toEqual(["a", "c"]);
+
+    const [setTag, getTag] = createLens(set, get, [
+      "todos",
+      byId(1),
+      "tags",
+      0,
+    ]);
+    const tag: string = getTag();
+    expect(tag).toBe("x");
+
+    setTag("z");
+    expect(state.todos[0].tags).toEqual(["z"]);
+
+    const [setMissing, getMissing] = createLens(set, get, [
+      "todos",
+      where<Todo>({ title: "missing" }),
+    ]);
+    const prevState = state;
+    expect(getMissing()).toBeUndefined();
+    setMissing({ title: "test" });
+    expect(state).toBe(prevState);
+  });
+
+  it("appends to an array with an index past the end", () => {
+    let state = { todos: [{ title: "a" }] };
+
+    const set = (x) => (state = x(state));
+    const get = () => state;
+
+    const [setTodo] = createLens(set, get, ["todos", 1]);
+    setTodo({ title: "b" }, true);
+    expect(state.todos).toEqual([{ title: "a" }, { title: "b" }]);
+
+    let other: any = {};
+    const [setItem] = createLens(
+      (x) => (other = x(other)),
+      () => other,
+      ["list", 0]
+    );
+    setItem({ title: "c" }, true);
+    expect(other).toEqual({ list: [{ title: "c" }] });
+
+    const store = create<any>()(withLenses({ list: [] }));
+    mountLens(
+      store,
+      ["list", 0],
+      lens<any>((set) => ({
+        id: 1,
+        inc: () => set((s) => ({ id: s.id + 1 })),
+      }))
+    );
+    expect(Array.isArray(store.getState().list)).toBe(true);
+    store.getState().list[0].inc();
+    expect(store.getState().list[0].id).toBe(2);
+  });
+
+  it("takes optics and prisms in `path`", () => {
+    type State = {
+      weather: { celsius: number };
+      users: Array<[string, { name: string }]>;
+      selected?: string;
+    };
+
+    let state: State = {
+      weather: { celsius: 0 },
+      users: [["a", { name: "Alice" }]],
+    };
+
+    const set = (x) => (state = x(state));
+    const get = () => state;
+
+    const fahrenheit: Optic<{ celsius: number }, number> = {
+      get: (s) => (s.celsius * 9) / 5 + 32,
+      set: (s, f) => ({ ...s, celsius: ((f - 32) * 5) / 9 }),
+    };
+
+    const [setF, getF] = createLens(set, get, ["weather", fahrenheit]);
+    const f: number = getF();
+    expect(f).toBe(32);
+    setF(212);
+    expect(state.weather.celsius).toBe(100);
+
+    const asMap: Optic<State["users"], Map<string, { name: string }>> = {
+      get: (entries) => new Map(entries),
+      set: (_, map) => Array.from(map.entries()),
+    };
+
+    const [setUsers, getUsers] = createLens(set, get, ["users", asMap]);
+    expect(getUsers().get("a")).toEqual({ name: "Alice" });
+    setUsers((m) => new Map(m).set("b", { name: "Bob" }));
+    expect(state.users).toEqual([
+      ["a", { name: "Alice" }],
+      ["b", { name: "Bob" }],
+    ]);
+
+    // prism composed with path keys
+    const selectedUser = prism<State, { name: string }>({
+      get: (s) => s.users.find(([k]) => k === s.selected)?.[1],
+      set: (s, user) => ({
+        ...s,
+        users: s.users.map(([k, v]) => [k, k === s.selected ? user : v]),
+      }),
+    });
+
+    const [setName, getName] = createLens(set, get, [selectedUser, "name"]);
+    const prevState = state;
+    expect(getName()).toBeUndefined();
+    setName("Nobody");
+    expect(state).toBe(prevState);
+
+    state = { ...state, selected: "b" };
+    expect(getName()).toBe("Bob");
+    setName("Robert");
+    expect(state.users[1][1]).toEqual({ name: "Robert" });
+  });
 });
 
 type SubStore = {
@@ -488,232 +654,2342 @@ describe("withLenses", () => {
   });
 });
 
-it("namedSetter", () => {
-  interface Test {
-    name: string;
-    setName();
-  }
-
-  const spy = jest.fn();
-  const _ = null as any;
-
-  const state = namedSetter<Test>((set) => ({
-    name: "abc",
-
-    setName() {
-      set({ name: "def" }, "setName");
-    },
-  }))(spy, _, _, _);
-
-  state.setName();
-  expect(spy).toBeCalledWith({ name: "def" }, undefined, "setName");
-});
+describe("mountLens", () => {
+  it("mounts and unmounts a lens after store creation", () => {
+    const cb = jest.fn();
 
-describe("atomic", () => {
-  it("makes `setter`s atomic", () => {
-    // no atomic
-    const store1 = create<any>()(
-      withLenses((set, get) => ({
-        sub: lens((set) => ({
-          id: 123,
-          test() {
-            set({ id: 456 });
+    const store = create<any>()(
+      withLenses({
+        features: lens<any>(() => ({
+          [meta]: {
+            setter: (set) => {
+              cb("features");
+              set();
+            },
           },
         })),
-        flag: false,
-        test() {
-          set({ flag: true });
-        },
-        [meta]: {
-          setter: (set) => {
-            set();
-
-            if (!get().flag) get().test();
-          },
-        },
-      }))
+      })
     );
 
-    const cb1 = jest.fn();
-    store1.subscribe(cb1);
-
-    store1.getState().sub.test();
-    expect(cb1).toBeCalledTimes(2);
+    const unmount = mountLens(
+      store,
+      ["features", "todo"],
+      lens<any>((set, _get, _api, ctx) => {
+        expect(ctx.rootPath).toEqual(["features", "todo"]);
+        expect(ctx.relativePath).toEqual(["todo"]);
 
-    // atomic
-    const store2 = create<any>()(
-      atomic(
-        withLenses((set, get) => ({
-          sub: lens((set) => ({
-            id: 123,
-            test() {
-              set({ id: 456 });
-            },
-          })),
-          flag: false,
+        return {
+          id: 1,
           test() {
-            set({ flag: true });
+            set((s) => ({ id: s.id + 1 }));
           },
           [meta]: {
             setter: (set) => {
+              cb("todo");
               set();
-
-              if (!get().flag) get().test();
             },
           },
-        }))
-      )
+        };
+      })
     );
 
-    const cb2 = jest.fn();
-    store2.subscribe(cb2);
+    expect(store.getState().features.todo.id).toBe(1);
+    cb.mockClear();
 
-    store2.getState().sub.test();
-    expect(cb2).toBeCalledTimes(1);
+    const { test } = store.getState().features.todo;
+    test();
+    expect(store.getState().features.todo.id).toBe(2);
+    expect(cb.mock.calls).toEqual([["todo"], ["features"]]);
+
+    unmount();
+    expect(store.getState().features).not.toHaveProperty("todo");
+
+    cb.mockClear();
+    test();
+    expect(cb).not.toBeCalled();
+    expect(store.getState().features).not.toHaveProperty("todo");
   });
 
-  it("enables context`s `atomic` function", () => {
-    const store = create(
+  it("expands nested lenses and works with immer and atomic", () => {
+    const store = create<any>()(
       atomic(
-        withLenses({
-          sub: lens<any>((set, get, _api, ctx) => ({
-            id: 123,
-            name: "abc",
-            nested: lens<any>((set) => ({
-              id: 123,
-              setId(id) {
-                set({ id });
-              },
-            })),
-
-            test() {
-              ctx.atomic(() => {
-                set({ id: 456 });
-                get().nested.setId(get().id);
-                set({ name: "def" });
-              });
-            },
-          })),
-        })
+        immer(
+          withLenses({
+            id: 1,
+          })
+        )
       )
     );
 
     const cb = jest.fn();
     store.subscribe(cb);
 
-    store.getState().sub.test();
+    mountLens(store, "sub", {
+      nested: lens<any>((set, _get, _api, ctx) => ({
+        name: "a",
+        test() {
+          ctx.atomic(() => {
+            set((draft) => {
+              draft.name += "b";
+            });
+            set((draft) => {
+              draft.name += "c";
+            });
+          });
+        },
+      })),
+    });
 
     expect(cb).toBeCalledTimes(1);
-    expect(store.getState().sub).toMatchObject({
-      id: 456,
-      name: "def",
-      nested: {
-        id: 456,
-      },
-    });
+
+    store.getState().sub.nested.test();
+    expect(cb).toBeCalledTimes(2);
+    expect(store.getState().sub.nested.name).toBe("abc");
+
+    unmountLens(store, "sub");
+    expect(cb).toBeCalledTimes(3);
+    expect(store.getState()).toEqual({ id: 1 });
   });
 });
 
-it("subscribe", () => {
-  interface State {
-    id: number;
-    name: string;
+describe("lensMap", () => {
+  type Tab = {
+    title: string;
+    setTitle(title: string): void;
+  };
 
-    test1();
-    test2();
-    test3();
-  }
+  it("creates keyed lens instances", () => {
+    const cb = jest.fn();
 
-  const store = create<State>((set) => ({
-    id: 123,
-    name: "abc",
+    const tab = lens<Tab>((set, _get, _api, ctx) => {
+      cb("create", ctx.rootPath);
 
-    test1() {
-      set({
-        id: 456,
-        name: "def",
-      });
-    },
+      return {
+        title: "",
+        setTitle(title) {
+          set({ title });
+        },
+        [meta]: {
+          postprocess: (state) => ({ title: state.title.toUpperCase() }),
+          setter: (set, ctx) => {
+            cb("setter", ctx.rootPath);
+            set();
+          },
+        },
+      };
+    });
 
-    test2() {
-      set({
-        id: 456, // same value
-        name: "abcdef",
-      });
-    },
+    const store = create(
+      withLenses({
+        tabs: lensMap(tab),
+      })
+    );
 
-    test3() {
-      set({
-        id: 789,
-      });
-    },
-  }));
+    store.getState().tabs.add("a");
+    store.getState().tabs.add("b", { title: "B" });
+
+    expect(cb.mock.calls).toEqual([
+      ["create", ["tabs", "items", "a"]],
+      ["create", ["tabs", "items", "b"]],
+    ]);
+    expect(store.getState().tabs.keys).toEqual(["a", "b"]);
+    expect(
+      store
+        .getState()
+        .tabs.values()
+        .map((x) => x.title)
+    ).toEqual(["", "B"]);
+
+    cb.mockClear();
+
+    const { setTitle } = store.getState().tabs.items.a;
+    setTitle("test");
+    expect(store.getState().tabs.items.a.title).toBe("TEST");
+    expect(store.getState().tabs.items.b.title).toBe("B");
+    expect(cb.mock.calls).toEqual([["setter", ["tabs", "items", "a"]]]);
+
+    store.getState().tabs.remove("a");
+    expect(store.getState().tabs.keys).toEqual(["b"]);
+    expect(store.getState().tabs.items).not.toHaveProperty("a");
+
+    cb.mockClear();
+    setTitle("again");
+    expect(cb).not.toBeCalled();
+  });
 
-  const cb1 = jest.fn();
-  const cb2 = jest.fn();
+  it("accepts a lens factory", () => {
+    const store = create(
+      withLenses({
+        tabs: lensMap((key) =>
+          lens<{ key: string }>(() => ({
+            key,
+          }))
+        ),
+      })
+    );
 
-  const unsub = subscribe(store, (s) => s.id, cb1, { fireImmediately: true });
-  subscribe(store, (s) => s.name, cb2, {
-    equalityFn: (a, b) => a.length === b.length,
+    store.getState().tabs.add("a");
+    expect(store.getState().tabs.items.a.key).toBe("a");
   });
+});
 
-  expect(cb1).toBeCalledTimes(1);
-  expect(cb2).toBeCalledTimes(0);
-
-  store.getState().test1();
-  expect(cb1).lastCalledWith(456, 123);
-  expect(cb2).toBeCalledTimes(0);
+it("lensList", () => {
+  const store = create(
+    withLenses({
+      list: lensList(lens<{ id: number }>(() => ({ id: 0 }))),
+    })
+  );
 
-  store.getState().test2();
-  expect(cb1).toBeCalledTimes(2);
-  expect(cb2).lastCalledWith("abcdef", "abc");
+  const { add, move } = store.getState().list;
 
-  unsub();
+  add("a", { id: 1 });
+  add("b", { id: 2 });
+  add("c", { id: 3 }, 0);
+  expect(store.getState().list.keys).toEqual(["c", "a", "b"]);
 
-  store.getState().test3();
-  expect(cb1).toBeCalledTimes(2);
-  expect(cb2).toBeCalledTimes(1);
+  move("c", 2);
+  expect(
+    store
+      .getState()
+      .list.values()
+      .map((x) => x.id)
+  ).toEqual([1, 2, 3]);
 });
 
-it("watch", () => {
-  const cb1 = jest.fn();
-  const cb2 = jest.fn();
+describe("computed", () => {
+  type Cart = {
+    items: number[];
+    discount: number;
+    readonly total: number;
+    readonly count: number;
+
+    add(x: number): void;
+    setDiscount(x: number): void;
+    setTotal(x: number): void;
+  };
+
+  const createCart = () => {
+    const total = jest.fn(
+      (s: Cart) => s.items.reduce((a, b) => a + b, 0) - s.discount
+    );
+    const count = jest.fn((s: Cart) => s.items.length);
+
+    const cart = lens<Cart>((set) => ({
+      items: [1],
+      discount: 0,
+      total: 0,
+      count: 0,
+
+      add: (x) => set((s) => ({ items: s.items.concat(x) })),
+      setDiscount: (discount) => set({ discount }),
+      setTotal: (x) =>
+        set({
+          // @ts-expect-error
+          total: x,
+        }),
 
-  const store = create(
-    withLenses({
-      sub: lens<any>((set) => ({
-        id: 123,
-        test() {
-          set({ id: 456 });
+      [meta]: {
+        computed: {
+          total,
+          count: { deps: (s) => [s.items], compute: count },
         },
-        nested: lens<any>((set) => ({
-          name: "abc",
-          test() {
-            set({ name: "def" });
-          },
-          [meta]: { setter: watch((s) => s, cb1, { fireImmediately: true }) },
-        })),
-        [meta]: { setter: watch((s) => s.id, cb2) },
-      })),
-    })
-  );
+      },
+    }));
 
-  expect(cb1).toBeCalledTimes(1);
-  expect(cb2).toBeCalledTimes(0);
+    return { cart, total, count };
+  };
 
-  store.getState().sub.nested.test();
+  it("computes fields on creation and when dependencies change", () => {
+    const { cart, total, count } = createCart();
+    const store = create(withLenses({ cart }));
 
-  expect(cb1).toBeCalledTimes(2);
-  expect(cb2).toBeCalledTimes(0);
+    expect(store.getState().cart).toMatchObject({ total: 1, count: 1 });
+    expect(total).toBeCalledTimes(1);
+    expect(count).toBeCalledTimes(1);
 
-  store.getState().sub.test();
-  expect(cb2).toBeCalledTimes(1);
+    store.getState().cart.add(2);
+    expect(store.getState().cart).toMatchObject({ total: 3, count: 2 });
+    expect(count).toBeCalledTimes(2);
 
-  store.getState().sub.test();
-  expect(cb2).toBeCalledTimes(1);
-});
+    store.getState().cart.setDiscount(1);
+    expect(store.getState().cart).toMatchObject({ total: 2, count: 2 });
+    expect(total).toBeCalledTimes(3);
+    expect(count).toBeCalledTimes(2);
 
-it("combineWatchers", () => {
+    const state = store.getState();
+    store.getState().cart.setTotal(100);
+    expect(store.getState()).toBe(state);
+  });
+
+  it("works with immer", () => {
+    const { cart } = createCart();
+    const store = create(immer(withLenses({ cart })));
+
+    store.getState().cart.add(2);
+    expect(store.getState().cart).toMatchObject({ total: 3, count: 2 });
+  });
+});
+
+describe("validate", () => {
+  type Item = {
+    name: string;
+    count: number;
+
+    setCount(count: number): void;
+  };
+
+  const item = (onInvalid?: "throw" | "log") =>
+    lens<Item>((set) => ({
+      name: "a",
+      count: 0,
+
+      setCount: (count) => set({ count }),
+
+      [meta]: {
+        validate: (state) =>
+          state.count < 0
+            ? [{ path: ["count"], message: "must be positive" }]
+            : undefined,
+        onInvalid,
+      },
+    }));
+
+  it("rejects invalid updates", () => {
+    const store = create(
+      withLenses({
+        items: {
+          first: item(),
+        },
+      })
+    );
+    const cb = jest.fn();
+    store.subscribe(cb);
+
+    let error;
+    try {
+      store.getState().items.first.setCount(-1);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(isValidationError(error)).toBe(true);
+    expect(error.rootPath).toEqual(["items", "first"]);
+    expect(error.issues).toEqual([
+      { path: ["count"], message: "must be positive" },
+    ]);
+    expect(error.message).toBe(
+      'Invalid state at "items.first": count: must be positive'
+    );
+    expect(cb).toBeCalledTimes(0);
+
+    store.getState().items.first.setCount(1);
+    expect(store.getState().items.first.count).toBe(1);
+  });
+
+  it("logs and drops invalid updates", () => {
+    const spy = jest.spyOn(console, "error").mockImplementation(() => {});
+    const store = create(withLenses({ item: item("log") }));
+
+    store.getState().item.setCount(-1);
+    expect(store.getState().item.count).toBe(0);
+    expect(spy).toBeCalledTimes(1);
+    spy.mockRestore();
+  });
+
+  it("drops only invalid updates of a rolled back atomic block", () => {
+    const spy = jest.spyOn(console, "error").mockImplementation(() => {});
+    const store = create(
+      atomic(
+        withLenses({
+          item: lens<Item & { update(): void }>((set, _get, _api, ctx) => ({
+            name: "a",
+            count: 0,
+
+            setCount: (count) => set({ count }),
+            update: () =>
+              ctx.atomic(() => {
+                set({ name: "b" });
+                set({ count: -1 });
+              }),
+
+            [meta]: {
+              validate: (state) =>
+                state.count < 0 ? "count must be positive" : undefined,
+              onInvalid: "log",
+            },
+          })),
+        }),
+        { rollback: true }
+      )
+    );
+
+    store.getState().item.update();
+    expect(store.getState().item).toMatchObject({ name: "b", count: 0 });
+    expect(spy).toBeCalledTimes(1);
+    spy.mockRestore();
+  });
+
+  it("accepts standard schema", () => {
+    const schema = {
+      "~standard": {
+        validate: (x: any) =>
+          x.name
+            ? { value: x }
+            : { issues: [{ message: "required", path: [{ key: "name" }] }] },
+      },
+    };
+
+    const store = create(
+      withLenses({
+        item: lens<{ name: string; setName(name: string): void }>((set) => ({
+          name: "a",
+          setName: (name) => set({ name }),
+          [meta]: { validate: standardSchema(schema) },
+        })),
+      })
+    );
+
+    expect(() => store.getState().item.setName("")).toThrow(
+      'Invalid state at "item": name: required'
+    );
+    expect(store.getState().item.name).toBe("a");
+  });
+});
+
+describe("devtools option", () => {
+  it("names `set` calls after lens path and action", () => {
+    const spy = jest.fn();
+
+    const logger = (config) => (set, get, api) =>
+      config(
+        (...args) => {
+          spy(args[2]);
+          return set(...args);
+        },
+        get,
+        api
+      );
+
+    const store = create<any>()(
+      logger(
+        withLenses(
+          (set) => ({
+            todos: {
+              list: lens<any>((set) => ({
+                items: [] as string[],
+                add(x) {
+                  set((s) => ({ items: s.items.concat(x) }));
+                },
+                clear: () => set({ items: [] }, false, "reset"),
+              })),
+              named: lens(
+                namedSetter<any>((set) => ({
+                  id: 1,
+                  inc: () => set((s) => ({ id: s.id + 1 }), "increment"),
+                }))
+              ),
+            },
+            flag: false,
+            toggle: () => set((s) => ({ flag: !s.flag })),
+          }),
+          { devtools: true }
+        )
+      )
+    );
+
+    store.getState().todos.list.add("a");
+    expect(spy).lastCalledWith({ type: "todos/list/add" });
+    expect(store.getState().todos.list.items).toEqual(["a"]);
+
+    store.getState().todos.list.clear();
+    expect(spy).lastCalledWith({ type: "todos/list/reset" });
+
+    store.getState().todos.named.inc();
+    expect(spy).lastCalledWith({ type: "todos/named/increment" });
+
+    store.getState().toggle();
+    expect(spy).lastCalledWith({ type: "toggle" });
+  });
+
+  it("works with `devtools` middleware", () => {
+    const send = jest.fn();
+
+    (globalThis as any).window = {
+      __REDUX_DEVTOOLS_EXTENSION__: {
+        connect: () => ({ init() {}, send, subscribe() {} }),
+      },
+    };
+
+    try {
+      const store = create(
+        devtools(
+          withLenses(
+            {
+              sub: lens<{ id: number; setId(id: number): void }>((set) => ({
+                id: 1,
+                setId: (id) => set({ id }),
+              })),
+            },
+            { devtools: true }
+          ),
+          { enabled: true }
+        )
+      );
+
+      store.getState().sub.setId(2);
+      expect(send).lastCalledWith({ type: "sub/setId" }, expect.anything());
+    } finally {
+      delete (globalThis as any).window;
+    }
+  });
+});
+
+it("namedSetter", () => {
+  interface Test {
+    name: string;
+    setName();
+  }
+
+  const spy = jest.fn();
+  const _ = null as any;
+
+  const state = namedSetter<Test>((set) => ({
+    name: "abc",
+
+    setName() {
+      set({ name: "def" }, "setName");
+    },
+  }))(spy, _, _, _);
+
+  state.setName();
+  expect(spy).toBeCalledWith({ name: "def" }, undefined, "setName");
+});
+
+it("reducerLens", () => {
+  type State = { count: number };
+  type Action = { type: "inc" } | { type: "add"; amount: number };
+
+  const reducer = (state: State, action: Action): State => {
+    switch (action.type) {
+      case "inc":
+        return { ...state, count: state.count + 1 };
+      case "add":
+        return { ...state, count: state.count + action.amount };
+    }
+  };
+
+  const postprocess = jest.fn();
+  const setCalls: unknown[][] = [];
+  const logger =
+    <T>(config: StateCreator<T, [], []>): StateCreator<T, [], []> =>
+    (set, get, api) =>
+      config(
+        (...args) => {
+          setCalls.push(args);
+          (set as any)(...args);
+        },
+        get,
+        api
+      );
+
+  const store = create(
+    logger(
+      withLenses({
+        counter: reducerLens(reducer, { count: 0, [meta]: { postprocess } }),
+      })
+    )
+  );
+
+  store.getState().counter.dispatch({ type: "inc" });
+  store.getState().counter.dispatch({ type: "add", amount: 10 });
+  () => {
+    // @ts-expect-error
+    store.getState().counter.dispatch({ type: "add" });
+  };
+
+  expect(store.getState().counter.count).toBe(11);
+  expect(postprocess).toHaveBeenLastCalledWith(
+    expect.objectContaining({ count: 11 }),
+    expect.objectContaining({ count: 1 }),
+    { type: "add", amount: 10 }
+  );
+  expect(setCalls[1][2]).toEqual({ type: "add", amount: 10 });
+});
+
+it("machineLens", () => {
+  type State = "idle" | "uploading" | "done";
+  type Event =
+    | { type: "start"; file: string }
+    | { type: "progress"; value: number }
+    | { type: "finish" }
+    | { type: "reset" };
+  type Context = { file: string; progress: number; uploads: number };
+
+  const exit = jest.fn();
+  const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+  const store = create(
+    withLenses({
+      upload: machineLens<State, Event, Context>({
+        initial: "idle",
+        context: { file: "", progress: 0, uploads: 0 },
+        states: {
+          uploading: {
+            entry: () => ({ progress: 0 }),
+            exit,
+          },
+          done: {
+            entry: (c) => ({ uploads: c.uploads + 1 }),
+          },
+        },
+        transitions: {
+          idle: {
+            start: {
+              target: "uploading",
+              action: (_c, e) => ({ file: e.file }),
+            },
+          },
+          uploading: {
+            progress: {
+              target: "uploading",
+              action: (_c, e) => ({ progress: e.value }),
+            },
+            finish: {
+              target: "done",
+              guard: (c) => c.progress === 100,
+            },
+          },
+          done: {
+            reset: "idle",
+          },
+        },
+      }),
+    })
+  );
+
+  const cb = jest.fn();
+  store.subscribe(cb);
+  const { upload } = store.getState();
+
+  expect(upload.send({ type: "finish" })).toBe(false);
+  expect(upload.send({ type: "start", file: "a.txt" })).toBe(true);
+  expect(store.getState().upload).toMatchObject({
+    state: "uploading",
+    context: { file: "a.txt", progress: 0 },
+  });
+  expect(cb).toBeCalledTimes(1);
+
+  expect(upload.can({ type: "finish" })).toBe(false);
+  upload.send({ type: "progress", value: 100 });
+  expect(upload.can({ type: "finish" })).toBe(true);
+  upload.send({ type: "finish" });
+
+  expect(store.getState().upload).toMatchObject({
+    state: "done",
+    context: { file: "a.txt", progress: 100, uploads: 1 },
+  });
+  expect(exit).toBeCalledTimes(1);
+  expect(cb).toBeCalledTimes(3);
+  expect(warn).not.toBeCalled(); // `atomic` middleware isn't needed
+  warn.mockRestore();
+});
+
+describe("synced", () => {
+  type Settings = {
+    theme: string;
+    draft: string;
+
+    setTheme(theme: string): void;
+    setDraft(draft: string): void;
+  };
+
+  const createTab = (options: Partial<SyncOptions<Settings>>) =>
+    create(
+      withLenses({
+        settings: lens(
+          synced<Settings>(
+            (set) => ({
+              theme: "light",
+              draft: "",
+
+              setTheme: (theme) => set({ theme }),
+              setDraft: (draft) => set({ draft }),
+            }),
+            { channel: "settings", exclude: ["draft"], ...options }
+          )
+        ),
+      })
+    );
+
+  it("syncs lens state between stores", () => {
+    const transport = createMemoryTransport();
+    const raw = transport("settings");
+    const messages = jest.fn();
+    raw.subscribe(messages);
+
+    const tab1 = createTab({ transport });
+    const tab2 = createTab({ transport });
+
+    tab1.getState().settings.setTheme("dark");
+    expect(tab2.getState().settings.theme).toBe("dark");
+    expect(messages).toBeCalledTimes(1); // not re-broadcasted
+
+    tab1.getState().settings.setDraft("abc");
+    expect(tab2.getState().settings.draft).toBe("");
+
+    // older change is ignored
+    raw.postMessage({ origin: "z", clock: 0, changes: { theme: "blue" } });
+    expect(tab1.getState().settings.theme).toBe("dark");
+    raw.postMessage({ origin: "z", clock: 5, changes: { theme: "blue" } });
+    expect(tab1.getState().settings.theme).toBe("blue");
+    expect(tab2.getState().settings.theme).toBe("blue");
+  });
+
+  it("uses custom conflict resolver", () => {
+    const transport = createMemoryTransport();
+
+    const tab1 = createTab({ transport });
+    const tab2 = createTab({
+      transport,
+      conflict: (local, remote) =>
+        local.theme === "locked" ? undefined : remote,
+    });
+
+    tab2.getState().settings.setTheme("locked");
+    tab1.getState().settings.setTheme("dark");
+    expect(tab2.getState().settings.theme).toBe("locked");
+  });
+
+  it("doesn't post functions and keeps local ones", () => {
+    const transport = createMemoryTransport();
+    const messages: any[] = [];
+    transport("prefs").subscribe((m) => messages.push(m));
+
+    const createStore = () =>
+      create<any>()(
+        withLenses({
+          prefs: lens(
+            synced<any>(
+              () => ({
+                editor: lens<any>((set) => ({
+                  size: 12,
+                  setSize: (size) => set({ size }),
+                })),
+              }),
+              { channel: "prefs", transport }
+            )
+          ),
+        })
+      );
+
+    const tab1 = createStore();
+    const tab2 = createStore();
+
+    tab1.getState().prefs.editor.setSize(14);
+    expect(messages).toEqual([
+      expect.objectContaining({ changes: { editor: { size: 14 } } }),
+    ]);
+
+    const { editor } = tab2.getState().prefs;
+    expect(editor.size).toBe(14);
+    expect(editor.setSize).not.toBe(tab1.getState().prefs.editor.setSize);
+
+    editor.setSize(16);
+    expect(tab2.getState().prefs.editor.size).toBe(16);
+    expect(tab1.getState().prefs.editor.size).toBe(16);
+  });
+
+  it("closes transport when the lens is unmounted", () => {
+    const memory = createMemoryTransport();
+    const close = jest.fn();
+    const transport = (channel: string) => ({ ...memory(channel), close });
+
+    const tab1 = createTab({ transport });
+    const tab2 = create<any>()(withLenses({}));
+    mountLens(
+      tab2,
+      "settings",
+      lens(
+        synced<any>(() => ({ theme: "light" }), {
+          channel: "settings",
+          transport,
+        })
+      )
+    );
+
+    tab1.getState().settings.setTheme("dark");
+    expect(tab2.getState().settings.theme).toBe("dark");
+
+    unmountLens(tab2, "settings");
+    expect(close).toBeCalledTimes(1);
+
+    tab1.getState().settings.setTheme("blue");
+    expect(tab2.getState()).not.toHaveProperty("settings");
+  });
+});
+
+describe("createTestLens", () => {
+  type Counter = {
+    value: number;
+    inc(by?: number): void;
+  };
+
+  const counter = (set, get, _api, ctx) => ({
+    value: 0,
+    inc: (by = 1) => set({ value: get().value + by }, false, "inc"),
+
+    [meta]: {
+      postprocess: (state) => ({ value: Math.min(state.value, 10) }),
+      setter: (next) => next(),
+    },
+  });
+
+  it("creates a lens and logs calls", () => {
+    const t = createTestLens<Counter>(counter, { initialState: { value: 5 } });
+    expect(t.state.value).toBe(5);
+
+    t.state.inc(10);
+    expect(t.state.value).toBe(10);
+    expect(t.calls.map((x) => x.type)).toEqual([
+      "setter",
+      "postprocess",
+      "set",
+    ]);
+    expect(t.calls[2]).toMatchObject({
+      partial: { value: 15 },
+      replace: false,
+      args: ["inc"],
+      state: { value: 10 },
+    });
+
+    t.set({ value: 1 });
+    expect(t.get().value).toBe(1);
+    expect(t.calls).toHaveLength(6);
+  });
+
+  it("mounts a lens into existing store", () => {
+    const store = create(withLenses({ other: 1 }));
+    const t = createTestLens<Counter>(counter, { api: store, path: ["a"] });
+
+    t.state.inc();
+    expect(store.getState()).toMatchObject({ other: 1, a: { value: 1 } });
+    expect(t.ctx.rootPath).toEqual(["a"]);
+  });
+});
+
+it("record and replay", () => {
+  type Todos = {
+    list: string[];
+    filter: { query: string; setQuery(query: string): void };
+
+    add(todo: string): void;
+    clear(): void;
+  };
+
+  const createTodos = () =>
+    create(
+      withLenses({
+        count: 0,
+        todos: lens<Todos>(
+          namedSetter((set) => ({
+            list: [],
+            filter: lens<any>((set) => ({
+              query: "",
+              setQuery: (query) => set({ query }),
+            })),
+
+            add: (todo) => set((s) => ({ list: s.list.concat(todo) }), "add"),
+            clear: () => set({ list: [] }, "clear"),
+          }))
+        ),
+      })
+    );
+
+  const store1 = createTodos();
+  const recorder = createRecorder(store1);
+
+  store1.getState().todos.add("a");
+  store1.getState().todos.filter.setQuery("b");
+  store1.setState({ count: 1 }); // not a lens `set`
+  store1.getState().todos.add("c");
+  recorder.stop();
+  store1.getState().todos.clear();
+
+  expect(recorder.log).toHaveLength(3);
+  expect(recorder.log[0]).toMatchObject({
+    path: ["todos"],
+    name: "add",
+    changes: { list: ["a"] },
+    removed: [],
+  });
+  expect(recorder.log[1]).toMatchObject({
+    path: ["todos", "filter"],
+    changes: { query: "b" },
+  });
+
+  const log = JSON.parse(JSON.stringify(recorder.log));
+  const store2 = createTodos();
+  const replayer = createReplayer(store2, log);
+
+  expect(replayer.step()).toBe(true);
+  expect(store2.getState().todos.list).toEqual(["a"]);
+  expect(replayer.position).toBe(1);
+
+  replayer.run();
+  expect(replayer.step()).toBe(false);
+  expect(store2.getState().todos).toMatchObject({
+    list: ["a", "c"],
+    filter: { query: "b" },
+  });
+  expect(typeof store2.getState().todos.filter.setQuery).toBe("function");
+});
+
+it("records and replays dynamic lenses", () => {
+  type Tab = { name: string; rename(name: string): void };
+
+  const tab = lens<Tab>((set) => ({
+    name: "",
+    rename: (name) => set({ name }),
+  }));
+
+  const createTabs = () =>
+    create<any>()(
+      withLenses({
+        tabs: lensMap<Tab>(tab),
+      })
+    );
+
+  const store1 = createTabs();
+  const recorder = createRecorder(store1);
+
+  store1.getState().tabs.add("k1");
+  store1.getState().tabs.add("k2", { name: "b" });
+  store1.getState().tabs.items.k1.rename("a");
+  store1.getState().tabs.remove("k2");
+  mountLens(store1, "extra", tab);
+  store1.getState().extra.rename("c");
+
+  expect(recorder.log.map((x) => x.type)).toEqual([
+    "call",
+    "call",
+    "set",
+    "call",
+    "mount",
+    "set",
+  ]);
+  expect(recorder.log[1]).toMatchObject({
+    path: ["tabs"],
+    action: "add",
+    args: ["k2", { name: "b" }, 1],
+  });
+
+  const hasFunctions = (x) =>
+    typeof x === "function" ||
+    (!!x && typeof x === "object" && Object.values(x).some(hasFunctions));
+  expect(hasFunctions(recorder.log)).toBe(false);
+
+  const log = JSON.parse(JSON.stringify(recorder.log));
+
+  expect(() => createReplayer(createTabs(), log).run()).toThrow(
+    'Can\'t mount a lens at "extra", pass `mount` option to replayer.'
+  );
+
+  const store2 = createTabs();
+  createReplayer(store2, log, { mount: () => tab }).run();
+
+  const { tabs, extra } = store2.getState();
+  expect(tabs.keys).toEqual(["k1"]);
+  expect(tabs.items.k1.name).toBe("a");
+  expect(extra.name).toBe("c");
+
+  // replayed lenses are independent of the recorded store
+  tabs.items.k1.rename("d");
+  expect(store2.getState().tabs.items.k1.name).toBe("d");
+  expect(store1.getState().tabs.items.k1.name).toBe("a");
+});
+
+describe("json patch", () => {
+  type Todos = {
+    list: string[];
+    count: number;
+    filter: { "a/b": string };
+
+    add(todo: string): void;
+    remove(): void;
+  };
+
+  const createTodos = (onPatches?, onLensPatches?) =>
+    create(
+      atomic(
+        withLenses(
+          {
+            other: 1,
+            todos: lens<Todos>((set) => ({
+              list: ["a"],
+              count: 1,
+              filter: { "a/b": "" },
+
+              add: (todo) => set((s) => ({ list: s.list.concat(todo) })),
+              remove: () => set((s) => ({ list: s.list.slice(1) })),
+
+              [meta]: {
+                postprocess: (s) => ({ count: s.list.length }),
+                onPatches: onLensPatches,
+              },
+            })),
+          },
+          { onPatches }
+        )
+      )
+    );
+
+  it("emits patches", () => {
+    const onPatches = jest.fn();
+    const onLensPatches = jest.fn();
+    const store = createTodos(onPatches, onLensPatches);
+
+    store.getState().todos.add("b");
+    expect(onPatches).toHaveBeenLastCalledWith([
+      { op: "add", path: "/todos/list/1", value: "b" },
+      { op: "replace", path: "/todos/count", value: 2 },
+    ]);
+    expect(onLensPatches).toBeCalledTimes(1);
+
+    store.getState().todos.remove();
+    expect(onPatches).toHaveBeenLastCalledWith([
+      { op: "replace", path: "/todos/list/0", value: "b" },
+      { op: "remove", path: "/todos/list/1" },
+      { op: "replace", path: "/todos/count", value: 1 },
+    ]);
+
+    store.setState({ other: 2 });
+    expect(onPatches).toHaveBeenLastCalledWith([
+      { op: "replace", path: "/other", value: 2 },
+    ]);
+    expect(onLensPatches).toBeCalledTimes(2);
+
+    expect(
+      createPatches({ "a/b": 1, c: 2 }, { "a/b": 2, fn() {} }, ["x"])
+    ).toEqual([
+      { op: "remove", path: "/x/c" },
+      { op: "replace", path: "/x/a~1b", value: 2 },
+    ]);
+  });
+
+  it("applies patches through lens setters", () => {
+    const patches: any[] = [];
+    const store1 = createTodos((x) => patches.push(...x));
+    const store2 = createTodos();
+
+    store1.getState().todos.add("b");
+    store1.setState((s) => ({
+      todos: { ...s.todos, filter: { "a/b": "test" } },
+    }));
+
+    const cb = jest.fn();
+    store2.subscribe(cb);
+
+    applyPatches(
+      store2,
+      patches.filter((x) => x.path !== "/todos/count")
+    );
+    expect(cb).toBeCalledTimes(1);
+    expect(store2.getState().todos).toMatchObject({
+      list: ["a", "b"],
+      count: 2, // postprocess
+      filter: { "a/b": "test" },
+    });
+
+    applyPatches(store2, [
+      { op: "test", path: "/todos/count", value: 2 },
+      { op: "move", from: "/todos/list/0", path: "/todos/list/-" },
+    ]);
+    expect(store2.getState().todos.list).toEqual(["b", "a"]);
+
+    expect(() =>
+      applyPatches(store2, [{ op: "test", path: "/other", value: 2 }])
+    ).toThrow('Patch test failed at "/other".');
+
+    // nothing is applied if any operation fails
+    cb.mockClear();
+    expect(() =>
+      applyPatches(store2, [
+        { op: "replace", path: "/other", value: 2 },
+        { op: "test", path: "/other", value: 3 },
+      ])
+    ).toThrow('Patch test failed at "/other".');
+    expect(store2.getState().other).toBe(1);
+    expect(cb).not.toBeCalled();
+
+    // RFC 6902: replaced and removed values must exist
+    expect(() =>
+      applyPatches(store2, [{ op: "replace", path: "/nope/deep", value: 1 }])
+    ).toThrow('Patch path "/nope/deep" doesn\'t exist.');
+    expect(() =>
+      applyPatches(store2, [{ op: "remove", path: "/todos/list/5" }])
+    ).toThrow('Patch path "/todos/list/5" doesn\'t exist.');
+    expect(() =>
+      applyPatches(store2, [{ op: "add", path: "/nope/deep", value: 1 }])
+    ).toThrow('Patch path "/nope/deep" doesn\'t exist.');
+    expect(store2.getState()).not.toHaveProperty("nope");
+  });
+
+  it("applies patches at a lens root with its own `set`", () => {
+    const store = createTodos();
+
+    applyPatches(store, [
+      {
+        op: "replace",
+        path: "/todos",
+        value: { list: ["x", "y"], count: 0, filter: { "a/b": "" } },
+      },
+    ]);
+    expect(store.getState().todos).toMatchObject({
+      list: ["x", "y"],
+      count: 2, // postprocess
+    });
+
+    store.getState().todos.add("z");
+    expect(store.getState().todos.list).toEqual(["x", "y", "z"]);
+  });
+
+  it("creates lens collection items", () => {
+    type Tab = { name: string; rename(name: string): void };
+
+    const createTabs = (onPatches?) =>
+      create<any>()(
+        withLenses(
+          {
+            tabs: lensMap<Tab>(
+              lens((set) => ({
+                name: "",
+                rename: (name) => set({ name }),
+              }))
+            ),
+          },
+          { onPatches }
+        )
+      );
+
+    const patches: any[] = [];
+    const store1 = createTabs((x) => patches.push(...x));
+    const store2 = createTabs();
+
+    store1.getState().tabs.add("k1", { name: "a" });
+    store1.getState().tabs.add("k2");
+    expect(patches[0]).toEqual({
+      op: "add",
+      path: "/tabs/items/k1",
+      value: { name: "a" }, // without functions
+    });
+
+    applyPatches(store2, JSON.parse(JSON.stringify(patches)));
+    expect(store2.getState().tabs.keys).toEqual(["k1", "k2"]);
+
+    store2.getState().tabs.items.k1.rename("b");
+    expect(store2.getState().tabs.items.k1.name).toBe("b");
+    expect(store1.getState().tabs.items.k1.name).toBe("a");
+
+    patches.length = 0;
+    store1.getState().tabs.remove("k1");
+    applyPatches(store2, patches);
+    expect(store2.getState().tabs.keys).toEqual(["k2"]);
+    expect(store2.getState().tabs.items).not.toHaveProperty("k1");
+  });
+});
+
+describe("changes", () => {
+  it("passes changes to `postprocess`, `setter` and `onChange`", () => {
+    const postprocessChanges: any[] = [];
+    const setterChanges: any[] = [];
+    const onChange = jest.fn();
+    const onRootChange = jest.fn();
+
+    const store = create(
+      atomic(
+        withLenses(() => ({
+          other: 1,
+          user: lens<any>((set, get, api, ctx) => ({
+            name: "a",
+            address: { city: "b", street: "c" },
+            tags: ["x"],
+
+            move(city: string) {
+              ctx.atomic(() => {
+                set((s) => ({ address: { ...s.address, city } }));
+                set((s) => ({ tags: s.tags.concat(city) }));
+              });
+            },
+
+            [meta]: {
+              postprocess: (state, _prevState, ...args) => {
+                expect(args).toEqual([]);
+                postprocessChanges.push(getChanges(state));
+              },
+              setter: (next) => setterChanges.push(next()),
+              onChange,
+            },
+          })),
+          [meta]: {
+            onChange: onRootChange,
+          },
+        }))
+      )
+    );
+
+    store.getState().user.move("d");
+
+    expect(postprocessChanges).toEqual([
+      { keys: ["address"], paths: [["address", "city"]] },
+      { keys: ["tags"], paths: [["tags", 1]] },
+    ]);
+    expect(setterChanges).toEqual(postprocessChanges);
+    expect(() => getChanges(store.getState().user)).toThrow(
+      "`getChanges` must be called with a state passed to `postprocess`."
+    );
+
+    // atomic block is reported once
+    expect(onChange).toBeCalledTimes(1);
+    expect(onChange).toBeCalledWith(
+      {
+        keys: ["address", "tags"],
+        paths: [
+          ["address", "city"],
+          ["tags", 1],
+        ],
+      },
+      store.getState().user,
+      expect.objectContaining({ tags: ["x"] })
+    );
+    expect(onRootChange).toBeCalledTimes(1);
+    expect(onRootChange.mock.calls[0][0]).toEqual({
+      keys: ["user"],
+      paths: [
+        ["user", "address", "city"],
+        ["user", "tags", 1],
+      ],
+    });
+
+    store.setState({ other: 2 });
+    expect(onChange).toBeCalledTimes(1);
+    expect(onRootChange).toBeCalledTimes(2);
+    expect(onRootChange.mock.calls[1][0]).toEqual({
+      keys: ["other"],
+      paths: [["other"]],
+    });
+  });
+
+  it("subscribes to the store only when a lens has `onChange`", () => {
+    let subscriptions = 0;
+    const onChange = jest.fn();
+
+    const countSubscriptions =
+      (f: StateCreator<any>): StateCreator<any> =>
+      (set, get, api) => {
+        const { subscribe } = api;
+        api.subscribe = (listener) => {
+          subscriptions++;
+          return subscribe(listener);
+        };
+        return f(set, get, api);
+      };
+
+    const store = create<any>()(
+      countSubscriptions(
+        withLenses({
+          sub: lens<any>(() => ({ id: 1 })),
+        })
+      )
+    );
+
+    expect(subscriptions).toBe(0);
+
+    const unmount = mountLens(
+      store,
+      "extra",
+      lens<any>(() => ({ id: 1, [meta]: { onChange } }))
+    );
+
+    mountLens(
+      store,
+      "other",
+      lens<any>(() => ({ id: 1, [meta]: { onChange } }))
+    );
+    expect(subscriptions).toBe(1);
+    onChange.mockClear();
+
+    store.setState({ extra: { ...store.getState().extra, id: 2 } });
+    expect(onChange).toBeCalledTimes(1);
+
+    unmount();
+    store.setState({ other: { ...store.getState().other, id: 2 } });
+    expect(onChange).toBeCalledTimes(2);
+  });
+
+  it("with immer", () => {
+    const changes: any[] = [];
+
+    const store = create(
+      immer(
+        withLenses({
+          sub: lens<any>((set) => ({
+            id: 1,
+            name: "a",
+            nested: { x: 1 },
+            test() {
+              set((s) => {
+                s.id = 2;
+                s.nested.x = 2;
+              });
+            },
+            [meta]: {
+              postprocess: (state) => {
+                changes.push(getChanges(state));
+              },
+            },
+          })),
+        })
+      )
+    );
+
+    store.getState().sub.test();
+    // nested objects are always reported
+    expect(changes[0]).toEqual({
+      keys: ["id", "nested"],
+      paths: [["id"], ["nested"]],
+    });
+  });
+});
+
+describe("strict mode", () => {
+  const createStrictStore = () =>
+    create(
+      atomic(
+        withLenses(
+          () => ({
+            other: 1,
+            todos: lens<any>((set, get, api, ctx) => ({
+              list: ["a"],
+              filter: { query: "" },
+
+              add(todo: string) {
+                set((s) => ({ list: s.list.concat(todo) }));
+              },
+
+              addUnsafe(todo: string) {
+                get().list.push(todo);
+              },
+
+              addTwice(todo: string) {
+                ctx.atomic(() => {
+                  this.add(todo);
+                  this.add(todo);
+                });
+              },
+
+              addDirectly(todo: string) {
+                ctx.atomic(() => {
+                  this.add(todo);
+                  api.setState((s) => ({
+                    todos: { ...s.todos, filter: { query: todo } },
+                  }));
+                });
+              },
+            })),
+          }),
+          { strict: true }
+        )
+      )
+    );
+
+  it("freezes state", () => {
+    const store = createStrictStore();
+
+    expect(Object.isFrozen(store.getState().todos.list)).toBe(true);
+
+    store.getState().todos.add("b");
+    expect(store.getState().todos.list).toEqual(["a", "b"]);
+    expect(Object.isFrozen(store.getState().todos.list)).toBe(true);
+
+    expect(() => store.getState().todos.addUnsafe("c")).toThrow(
+      /Can't mutate state at "todos"/
+    );
+    expect(store.getState().todos.list).toEqual(["a", "b"]);
+  });
+
+  it("warns about direct `setState` calls", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const store = createStrictStore();
+
+    store.getState().todos.add("b");
+    store.getState().todos.addTwice("c");
+    store.setState({ other: 2 });
+    expect(warn).not.toBeCalled();
+
+    store.setState((s) => ({ todos: { ...s.todos, list: [] } }));
+    expect(warn).toBeCalledTimes(1);
+    expect(warn).toBeCalledWith(
+      'State of lens at "todos" was changed with `setState`, use lens `set` instead.'
+    );
+
+    store.getState().todos.addDirectly("d");
+    expect(warn).toBeCalledTimes(2);
+    expect(store.getState().todos).toMatchObject({
+      list: ["d"],
+      filter: { query: "d" },
+    });
+
+    warn.mockRestore();
+  });
+});
+
+describe("undoable", () => {
+  type Doc = {
+    text: string;
+    selection: number;
+
+    setText(text: string): void;
+    select(x: number): void;
+    replace(text: string): void;
+  };
+
+  const doc = (options?) =>
+    lens(
+      undoable<Doc>(
+        (set, _get, _api, ctx) => ({
+          text: "",
+          selection: 0,
+
+          setText: (text) => set({ text }),
+          select: (selection) => set({ selection }),
+          replace: (text) =>
+            ctx.atomic(() => {
+              set({ text: "" });
+              set({ text });
+            }),
+        }),
+        options
+      )
+    );
+
+  it("undoes and redoes changes", () => {
+    const store = create(atomic(withLenses({ doc: doc() })));
+
+    expect(store.getState().doc.canUndo).toBe(false);
+
+    store.getState().doc.setText("a");
+    store.getState().doc.setText("ab");
+    expect(store.getState().doc.canUndo).toBe(true);
+
+    store.getState().doc.undo();
+    expect(store.getState().doc).toMatchObject({
+      text: "a",
+      canUndo: true,
+      canRedo: true,
+    });
+
+    store.getState().doc.undo();
+    store.getState().doc.undo(); // no-op
+    expect(store.getState().doc).toMatchObject({
+      text: "",
+      canUndo: false,
+      canRedo: true,
+    });
+
+    store.getState().doc.redo();
+    expect(store.getState().doc.text).toBe("a");
+
+    store.getState().doc.setText("b");
+    expect(store.getState().doc.canRedo).toBe(false);
+
+    store.getState().doc.clear();
+    expect(store.getState().doc).toMatchObject({
+      text: "b",
+      canUndo: false,
+      canRedo: false,
+    });
+  });
+
+  it("groups atomic changes, excludes keys and limits history", () => {
+    const store = create(
+      atomic(withLenses({ doc: doc({ exclude: ["selection"], limit: 2 }) }))
+    );
+
+    store.getState().doc.replace("a");
+    store.getState().doc.select(5);
+    store.getState().doc.undo();
+    expect(store.getState().doc).toMatchObject({
+      text: "",
+      selection: 5,
+      canUndo: false,
+    });
+
+    store.getState().doc.setText("1");
+    store.getState().doc.setText("2");
+    store.getState().doc.setText("3");
+    store.getState().doc.undo();
+    store.getState().doc.undo();
+    expect(store.getState().doc).toMatchObject({
+      text: "1",
+      canUndo: false,
+    });
+  });
+});
+
+describe("atomic", () => {
+  it("makes `setter`s atomic", () => {
+    // no atomic
+    const store1 = create<any>()(
+      withLenses((set, get) => ({
+        sub: lens((set) => ({
+          id: 123,
+          test() {
+            set({ id: 456 });
+          },
+        })),
+        flag: false,
+        test() {
+          set({ flag: true });
+        },
+        [meta]: {
+          setter: (set) => {
+            set();
+
+            if (!get().flag) get().test();
+          },
+        },
+      }))
+    );
+
+    const cb1 = jest.fn();
+    store1.subscribe(cb1);
+
+    store1.getState().sub.test();
+    expect(cb1).toBeCalledTimes(2);
+
+    // atomic
+    const store2 = create<any>()(
+      atomic(
+        withLenses((set, get) => ({
+          sub: lens((set) => ({
+            id: 123,
+            test() {
+              set({ id: 456 });
+            },
+          })),
+          flag: false,
+          test() {
+            set({ flag: true });
+          },
+          [meta]: {
+            setter: (set) => {
+              set();
+
+              if (!get().flag) get().test();
+            },
+          },
+        }))
+      )
+    );
+
+    const cb2 = jest.fn();
+    store2.subscribe(cb2);
+
+    store2.getState().sub.test();
+    expect(cb2).toBeCalledTimes(1);
+  });
+
+  it("enables context`s `atomic` function", () => {
+    const store = create(
+      atomic(
+        withLenses({
+          sub: lens<any>((set, get, _api, ctx) => ({
+            id: 123,
+            name: "abc",
+            nested: lens<any>((set) => ({
+              id: 123,
+              setId(id) {
+                set({ id });
+              },
+            })),
+
+            test() {
+              ctx.atomic(() => {
+                set({ id: 456 });
+                get().nested.setId(get().id);
+                set({ name: "def" });
+              });
+            },
+          })),
+        })
+      )
+    );
+
+    const cb = jest.fn();
+    store.subscribe(cb);
+
+    store.getState().sub.test();
+
+    expect(cb).toBeCalledTimes(1);
+    expect(store.getState().sub).toMatchObject({
+      id: 456,
+      name: "def",
+      nested: {
+        id: 456,
+      },
+    });
+  });
+
+  it("rolls back changes if atomic block throws", () => {
+    const createTestStore = (rollbackAll?: boolean) =>
+      create(
+        atomic(
+          withLenses({
+            sub: lens<any>((set, _get, _api, ctx) => ({
+              id: 1,
+              name: "abc",
+
+              fail() {
+                ctx.atomic(() => {
+                  set({ id: 2 });
+                  throw new Error("failed");
+                });
+              },
+
+              test(rollback?: boolean) {
+                ctx.atomic(() => {
+                  set({ id: 2 });
+                  try {
+                    ctx.atomic(
+                      () => {
+                        set({ name: "def" });
+                        throw new Error("failed");
+                      },
+                      { rollback }
+                    );
+                  } catch (e) {
+                    set({ id: 3 });
+                  }
+                });
+              },
+            })),
+          }),
+          { rollback: rollbackAll }
+        )
+      );
+
+    // without rollback
+    const store1 = createTestStore();
+    store1.getState().sub.test();
+    expect(store1.getState().sub).toMatchObject({ id: 3, name: "def" });
+
+    // per call, rolls back to the outermost block
+    const store2 = createTestStore();
+    const cb = jest.fn();
+    store2.subscribe(cb);
+    store2.getState().sub.test(true);
+    expect(cb).toBeCalledTimes(0);
+    expect(store2.getState().sub).toMatchObject({ id: 1, name: "abc" });
+
+    // middleware option, also rethrows the error
+    const store3 = createTestStore(true);
+    store3.getState().sub.test();
+    expect(store3.getState().sub).toMatchObject({ id: 1, name: "abc" });
+    expect(() => store3.getState().sub.fail()).toThrow("failed");
+    expect(store3.getState().sub).toMatchObject({ id: 1, name: "abc" });
+  });
+});
+
+it("subscribe", () => {
+  interface State {
+    id: number;
+    name: string;
+
+    test1();
+    test2();
+    test3();
+  }
+
+  const store = create<State>((set) => ({
+    id: 123,
+    name: "abc",
+
+    test1() {
+      set({
+        id: 456,
+        name: "def",
+      });
+    },
+
+    test2() {
+      set({
+        id: 456, // same value
+        name: "abcdef",
+      });
+    },
+
+    test3() {
+      set({
+        id: 789,
+      });
+    },
+  }));
+
+  const cb1 = jest.fn();
+  const cb2 = jest.fn();
+
+  const unsub = subscribe(store, (s) => s.id, cb1, { fireImmediately: true });
+  subscribe(store, (s) => s.name, cb2, {
+    equalityFn: (a, b) => a.length === b.length,
+  });
+
+  expect(cb1).toBeCalledTimes(1);
+  expect(cb2).toBeCalledTimes(0);
+
+  store.getState().test1();
+  expect(cb1).lastCalledWith(456, 123);
+  expect(cb2).toBeCalledTimes(0);
+
+  store.getState().test2();
+  expect(cb1).toBeCalledTimes(2);
+  expect(cb2).lastCalledWith("abcdef", "abc");
+
+  unsub();
+
+  store.getState().test3();
+  expect(cb1).toBeCalledTimes(2);
+  expect(cb2).toBeCalledTimes(1);
+});
+
+describe("context transaction", () => {
+  type Form = {
+    name: string;
+    status: string;
+    other: number;
+
+    save(name: string, fail?: boolean): Promise<string>;
+    setName(name: string): void;
+    setOther(x: number): void;
+  };
+
+  const createForm = () => {
+    let resolve = () => {};
+    const wait = () => new Promise<void>((r) => (resolve = r));
+
+    const store = create(
+      withLenses({
+        form: lens<Form>((set, _get, _api, ctx) => ({
+          name: "",
+          status: "idle",
+          other: 0,
+
+          save: (name, fail) =>
+            ctx.transaction(async (set, get) => {
+              set({ status: "saving", name });
+              await wait();
+              if (fail) throw new Error("failed");
+              set({ status: "saved" });
+              return get().name;
+            }),
+
+          setName: (name) => set({ name }),
+          setOther: (other) => set({ other }),
+        })),
+      })
+    );
+
+    return { store, resume: () => resolve() };
+  };
+
+  it("commits changes once when resolved", async () => {
+    const { store, resume } = createForm();
+    const cb = jest.fn();
+    store.subscribe(cb);
+
+    const p = store.getState().form.save("test");
+    await Promise.resolve();
+    expect(store.getState().form).toMatchObject({ name: "", status: "idle" });
+
+    resume();
+    await expect(p).resolves.toBe("test");
+    expect(store.getState().form).toMatchObject({
+      name: "test",
+      status: "saved",
+    });
+    expect(cb).toBeCalledTimes(1);
+  });
+
+  it("discards changes when rejected", async () => {
+    const { store, resume } = createForm();
+
+    const p = store.getState().form.save("test", true);
+    resume();
+
+    await expect(p).rejects.toThrow("failed");
+    expect(store.getState().form).toMatchObject({ name: "", status: "idle" });
+  });
+
+  it("doesn't mutate the store with mutators", async () => {
+    const store = create<any>()(
+      withLenses({
+        sub: lens<any>((_set, _get, _api, ctx) => ({
+          n: 1,
+          nested: { x: 1, y: 1 },
+
+          run: (fail) =>
+            ctx.transaction(async (set) => {
+              set((s) => {
+                s.n = 2;
+                s.nested.x = 2;
+              });
+              expect(store.getState().sub).toMatchObject({
+                n: 1,
+                nested: { x: 1 },
+              });
+              if (fail) throw new Error("failed");
+            }),
+        })),
+      })
+    );
+
+    const { nested } = store.getState().sub;
+    await expect(store.getState().sub.run(true)).rejects.toThrow("failed");
+    expect(store.getState().sub).toMatchObject({ n: 1, nested: { x: 1 } });
+    expect(store.getState().sub.nested).toBe(nested);
+
+    await store.getState().sub.run();
+    expect(store.getState().sub).toMatchObject({
+      n: 2,
+      nested: { x: 2, y: 1 },
+    });
+  });
+
+  it("rejects on conflicting changes", async () => {
+    const { store, resume } = createForm();
+
+    const p1 = store.getState().form.save("a");
+    store.getState().form.setOther(1); // different key
+    resume();
+    await p1;
+    expect(store.getState().form).toMatchObject({ name: "a", other: 1 });
+
+    const p2 = store.getState().form.save("b");
+    store.getState().form.setName("c"); // same key
+    resume();
+    await expect(p2).rejects.toThrow('Transaction conflict at "form": name');
+    expect(store.getState().form).toMatchObject({ name: "c", status: "saved" });
+  });
+});
+
+describe("context subscribe", () => {
+  it("subscribes to lens state", () => {
+    const cb1 = jest.fn();
+    const cb2 = jest.fn();
+
+    const store = create(
+      withLenses({
+        sub: lens<{ id: number; name: string; setId(id: number): void }>(
+          (set, _get, _api, ctx) => {
+            ctx.subscribe((s) => s.id, cb1, { fireImmediately: true });
+            ctx.subscribe((s) => s.name, cb2);
+
+            return {
+              id: 1,
+              name: "a",
+              setId: (id) => set({ id }),
+            };
+          }
+        ),
+      })
+    );
+
+    expect(cb1).toBeCalledTimes(1);
+    expect(cb1).lastCalledWith(1, 1);
+
+    store.getState().sub.setId(2);
+    expect(cb1).toBeCalledTimes(2);
+    expect(cb1).lastCalledWith(2, 1);
+    expect(cb2).not.toBeCalled();
+  });
+
+  it("unsubscribes when lens is unmounted", () => {
+    const cb = jest.fn();
+    let unsub;
+
+    const store = create<any>()(withLenses({}));
+
+    const sub = lens<any>((set, _get, _api, ctx) => {
+      unsub = ctx.subscribe((s) => s.id, cb, { fireImmediately: true });
+
+      return {
+        id: 1,
+        setId: (id) => set({ id }),
+      };
+    });
+
+    mountLens(store, "a", sub);
+    expect(cb).lastCalledWith(1, 1);
+
+    store.getState().a.setId(2);
+    expect(cb).lastCalledWith(2, 1);
+
+    unsub();
+    store.getState().a.setId(3);
+    expect(cb).toBeCalledTimes(2);
+
+    mountLens(store, "b", sub);
+    expect(cb).toBeCalledTimes(3);
+
+    unmountLens(store, "b");
+    store.setState({ b: { id: 4 } });
+    expect(cb).toBeCalledTimes(3);
+  });
+});
+
+describe("context parent and ref", () => {
+  type Catalog = {
+    prices: Record<string, number>;
+    setPrice(id: string, price: number): void;
+  };
+
+  type Cart = {
+    items: string[];
+    total(): number;
+    clearPrices(): void;
+    shopName(): string;
+  };
+
+  const createShop = () =>
+    create(
+      withLenses({
+        shop: lens<{ name: string; catalog: Catalog; cart: Cart }>(() => ({
+          name: "shop",
+
+          catalog: lens<Catalog>((set) => ({
+            prices: { a: 1, b: 2 },
+            setPrice: (id, price) =>
+              set((s) => ({ prices: { ...s.prices, [id]: price } })),
+          })),
+
+          cart: lens<Cart>((_set, get, _api, ctx) => {
+            const [setCatalog, getCatalog] = ctx.ref<Catalog>("catalog");
+
+            return {
+              items: ["a", "b"],
+              total: () =>
+                get().items.reduce(
+                  (sum, id) => sum + getCatalog().prices[id],
+                  0
+                ),
+              clearPrices: () => setCatalog({ prices: {} }),
+              shopName: () => ctx.parent<{ name: string }>().get().name,
+            };
+          }),
+        })),
+      })
+    );
+
+  it("reads and writes sibling lenses", () => {
+    const store = createShop();
+    const { cart, catalog } = store.getState().shop;
+
+    expect(cart.total()).toBe(3);
+    catalog.setPrice("a", 10);
+    expect(cart.total()).toBe(12);
+
+    cart.clearPrices();
+    expect(store.getState().shop.catalog).toEqual({
+      prices: {},
+      setPrice: catalog.setPrice,
+    });
+  });
+
+  it("returns parent lens", () => {
+    const store = createShop();
+
+    expect(store.getState().shop.cart.shopName()).toBe("shop");
+  });
+});
+
+describe("reset", () => {
+  type Todos = {
+    list: string[];
+    filters: {
+      query: string;
+      setQuery(query: string): void;
+    };
+
+    add(todo: string): void;
+    clear(keys?: Array<"list" | "filters">): void;
+  };
+
+  const createTodos = () =>
+    create(
+      withLenses({
+        todos: lens<Todos>((set, _get, _api, ctx) => ({
+          list: [],
+          filters: lens((set) => ({
+            query: "",
+            setQuery: (query) => set({ query }),
+          })),
+
+          add: (todo) => set((s) => ({ list: s.list.concat(todo) })),
+          clear: (keys) => ctx.reset(keys),
+        })),
+        counters: lensMap(
+          lens<{ value: number }>(() => ({
+            value: 0,
+          }))
+        ),
+      })
+    );
+
+  it("resets lens to initial state", () => {
+    const store = createTodos();
+    const { todos } = store.getState();
+
+    todos.add("a");
+    todos.filters.setQuery("b");
+
+    store.getState().todos.clear(["filters"]);
+    expect(store.getState().todos).toMatchObject({
+      list: ["a"],
+      filters: { query: "" },
+    });
+
+    store.getState().todos.filters.setQuery("b");
+    store.getState().todos.clear();
+    expect(store.getState().todos).toEqual(todos);
+    expect(store.getState().todos.filters.setQuery).toBe(
+      todos.filters.setQuery
+    );
+  });
+
+  it("resets the whole store", () => {
+    const store = createTodos();
+    const initial = store.getState();
+
+    store.getState().todos.add("a");
+    store.getState().counters.add("x");
+    const cb = jest.fn();
+    const counterLens = lens<{ value: number }>((_set, _get, _api, ctx) => {
+      ctx.subscribe((s) => s.value, cb);
+      return { value: 0 };
+    });
+    mountLens(store, ["counters", "items", "y"], counterLens);
+
+    resetAll(store);
+    expect(store.getState()).toEqual(initial);
+
+    // lenses which were removed by reset are unmounted
+    store.setState({
+      counters: {
+        ...store.getState().counters,
+        items: { y: { value: 1 } },
+      },
+    });
+    expect(cb).toBeCalledTimes(0);
+  });
+});
+
+describe("react", () => {
+  type Counter = {
+    value: number;
+    other: number;
+
+    inc(): void;
+    setOther(x: number): void;
+  };
+
+  const counter = lens<Counter>((set) => ({
+    value: 0,
+    other: 0,
+
+    inc: () => set((s) => ({ value: s.value + 1 })),
+    setOther: (other) => set({ other }),
+  }));
+
+  const createCounters = () =>
+    create(withLenses({ a: { b: counter }, c: counter }));
+
+  beforeAll(() => {
+    (globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  it("useLens", () => {
+    const store = createCounters();
+    const renders = jest.fn();
+
+    const Counter = () => {
+      const value = useLens<Counter, number>(
+        { api: store, rootPath: ["a", "b"] },
+        (s) => s.value
+      );
+      renders();
+      return createElement("span", null, value);
+    };
+
+    let res;
+    act(() => {
+      res = render(createElement(Counter));
+    });
+    expect(res.toJSON().children).toEqual(["0"]);
+
+    act(() => store.getState().a.b.inc());
+    expect(res.toJSON().children).toEqual(["1"]);
+
+    act(() => store.getState().a.b.setOther(1));
+    act(() => store.getState().c.inc());
+    expect(renders).toBeCalledTimes(2);
+  });
+
+  it("createLensHooks", () => {
+    const store = createCounters();
+    const hooks = createLensHooks<Counter>();
+    const renders = jest.fn();
+
+    const Counter = () => {
+      const { value } = hooks.useLens(
+        (s) => ({ value: s.value }),
+        (a, b) => a.value === b.value
+      );
+      renders();
+      return createElement("span", null, value);
+    };
+
+    let res;
+    act(() => {
+      res = render(
+        createElement(
+          "div",
+          null,
+          createElement(
+            hooks.LensProvider,
+            { lens: { api: store, rootPath: ["a", "b"] } },
+            createElement(Counter)
+          ),
+          createElement(
+            hooks.LensProvider,
+            { lens: { api: store, rootPath: ["c"] } },
+            createElement(Counter)
+          )
+        )
+      );
+    });
+
+    act(() => store.getState().c.inc());
+    act(() => store.getState().c.setOther(1));
+    expect(res.toJSON().children.map((x) => x.children)).toEqual([
+      ["0"],
+      ["1"],
+    ]);
+    expect(renders).toBeCalledTimes(3);
+
+    const spy = jest.spyOn(console, "error").mockImplementation(() => {});
+    expect(() => render(createElement(Counter))).toThrow(
+      "Component must be inside `LensProvider`."
+    );
+    spy.mockRestore();
+  });
+});
+
+it("watch", () => {
+  const cb1 = jest.fn();
+  const cb2 = jest.fn();
+
+  const store = create(
+    withLenses({
+      sub: lens<any>((set) => ({
+        id: 123,
+        test() {
+          set({ id: 456 });
+        },
+        nested: lens<any>((set) => ({
+          name: "abc",
+          test() {
+            set({ name: "def" });
+          },
+          [meta]: { setter: watch((s) => s, cb1, { fireImmediately: true }) },
+        })),
+        [meta]: { setter: watch((s) => s.id, cb2) },
+      })),
+    })
+  );
+
+  expect(cb1).toBeCalledTimes(1);
+  expect(cb2).toBeCalledTimes(0);
+
+  store.getState().sub.nested.test();
+
+  expect(cb1).toBeCalledTimes(2);
+  expect(cb2).toBeCalledTimes(0);
+
+  store.getState().sub.test();
+  expect(cb2).toBeCalledTimes(1);
+
+  store.getState().sub.test();
+  expect(cb2).toBeCalledTimes(1);
+});
+
+describe("watch options", () => {
+  const createCounter = (setter) =>
+    create(
+      withLenses({
+        sub: lens<any>((set) => ({
+          value: 0,
+          other: 0,
+          setValue: (value) => set({ value }),
+          setOther: (other) => set({ other }),
+          [meta]: { setter },
+        })),
+      })
+    );
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("handles falsy values", () => {
+    const cb = jest.fn();
+    const store = createCounter(watch((s) => s.value, cb));
+
+    store.getState().sub.setOther(1);
+    expect(cb).toBeCalledTimes(0);
+
+    // first selected value (0) is kept, not re-selected on every call
+    store.setState({ sub: { ...store.getState().sub, value: 1 } });
+    store.getState().sub.setOther(2);
+    expect(cb).toBeCalledTimes(1);
+    expect(cb).toBeCalledWith(1, 0, expect.anything());
+  });
+
+  it("runs cleanup and aborts previous effect", () => {
+    const cleanup = jest.fn();
+    const signals: AbortSignal[] = [];
+    const store = createCounter(
+      watch(
+        (s) => s.value,
+        (_value, _prev, signal) => {
+          signals.push(signal);
+          return cleanup;
+        }
+      )
+    );
+
+    store.getState().sub.setValue(1);
+    expect(cleanup).toBeCalledTimes(0);
+    expect(signals[0].aborted).toBe(false);
+
+    store.getState().sub.setValue(2);
+    expect(cleanup).toBeCalledTimes(1);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  it("debounces and throttles effects", () => {
+    jest.useFakeTimers();
+
+    const cb1 = jest.fn();
+    const store1 = createCounter(watch((s) => s.value, cb1, { debounce: 100 }));
+
+    store1.getState().sub.setValue(1);
+    store1.getState().sub.setValue(2);
+    jest.advanceTimersByTime(50);
+    store1.getState().sub.setValue(3);
+    jest.advanceTimersByTime(99);
+    expect(cb1).toBeCalledTimes(0);
+    jest.advanceTimersByTime(1);
+    expect(cb1).toBeCalledTimes(1);
+    expect(cb1).toBeCalledWith(3, 0, expect.anything());
+
+    const cb2 = jest.fn();
+    const store2 = createCounter(watch((s) => s.value, cb2, { throttle: 100 }));
+
+    store2.getState().sub.setValue(1);
+    store2.getState().sub.setValue(2);
+    store2.getState().sub.setValue(3);
+    expect(cb2).toBeCalledTimes(1);
+    expect(cb2).toBeCalledWith(1, 0, expect.anything());
+    jest.advanceTimersByTime(100);
+    expect(cb2).toBeCalledTimes(2);
+    expect(cb2).toBeCalledWith(3, 1, expect.anything());
+  });
+
+  it("handles rejections of async effects", async () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    const store = createCounter(
+      watch(
+        (s) => s.value,
+        (value, _prev, signal) =>
+          new Promise((_, reject) => {
+            signal.addEventListener("abort", () => reject(new Error("abort")));
+            if (value === 3) reject(new Error("failed"));
+          })
+      )
+    );
+
+    store.getState().sub.setValue(1);
+    store.getState().sub.setValue(2); // aborts the first effect
+    store.getState().sub.setValue(3);
+    await new Promise((resolve) => setTimeout(resolve));
+
+    expect(error).toBeCalledTimes(1);
+    expect(error).toBeCalledWith(new Error("failed"));
+    error.mockRestore();
+  });
+
+  it("stops when the lens is unmounted", () => {
+    jest.useFakeTimers();
+
+    const cb = jest.fn();
+    const cleanup = jest.fn();
+    const store = create<any>()(withLenses({}));
+    mountLens(
+      store,
+      "sub",
+      lens<any>((set) => ({
+        value: 0,
+        setValue: (value) => set({ value }),
+        [meta]: {
+          setter: watch(
+            (s) => s.value,
+            (value) => {
+              cb(value);
+              return cleanup;
+            },
+            { debounce: 100 }
+          ),
+        },
+      }))
+    );
+
+    store.getState().sub.setValue(1);
+    jest.advanceTimersByTime(100);
+    store.getState().sub.setValue(2);
+    unmountLens(store, "sub");
+    expect(cleanup).toBeCalledTimes(1);
+
+    jest.advanceTimersByTime(100);
+    expect(cb).toBeCalledTimes(1);
+  });
+
+  it("runs effects in a microtask", async () => {
+    const cb = jest.fn();
+    const store = createCounter(
+      watch((s) => s.value, cb, { scheduler: "microtask" })
+    );
+
+    store.getState().sub.setValue(1);
+    store.getState().sub.setValue(2);
+    expect(cb).toBeCalledTimes(0);
+
+    await Promise.resolve();
+    expect(cb).toBeCalledTimes(1);
+    expect(cb).toBeCalledWith(2, 0, expect.anything());
+  });
+});
+
+it("combineWatchers", () => {
   const cbId = jest.fn();
   const cbName = jest.fn();
 
@@ -824,6 +3100,128 @@ it("persistOptions", () => {
   });
 });
 
+it("persistOptions with versions", () => {
+  let _storage;
+
+  const storage = {
+    getItem: () => _storage,
+    setItem: (_, v: any) => (_storage = JSON.parse(JSON.stringify(v))),
+    removeItem() {},
+  };
+
+  const createTestStore = (subA, subB) =>
+    create<any>()(
+      persist(
+        (set) => ({
+          subA,
+          subB,
+          test() {
+            set(
+              produce((s: any) => {
+                s.subA.id += 1;
+                s.subB.id += 1;
+              })
+            );
+          },
+        }),
+        {
+          name: "test",
+          storage,
+          ...persistOptions,
+        }
+      )
+    );
+
+  const store1 = createTestStore(
+    { id: 1, ...persistOptions({ version: 1 }) },
+    { id: 1, ...persistOptions({ version: 1 }) }
+  );
+  store1.getState().test();
+
+  const migrate = jest.fn((x: any, version) => ({ value: x.id * 10 }));
+
+  const store2 = createTestStore(
+    { value: 0, ...persistOptions({ version: 2, migrate }) },
+    { id: 0, ...persistOptions({ version: 2 }) }
+  );
+
+  expect(migrate).toBeCalledTimes(1);
+  expect(migrate).toBeCalledWith({ id: 2 }, 1);
+  expect(store2.getState()).toMatchObject({
+    subA: { value: 20 },
+    subB: { id: 0 }, // no `migrate`, so persisted state is dropped
+  });
+
+  store2.getState().test(); // saves state with new versions
+
+  const store3 = createTestStore(
+    { value: 0, ...persistOptions({ version: 2, migrate }) },
+    { id: 0, ...persistOptions({ version: 2 }) }
+  );
+
+  expect(migrate).toBeCalledTimes(1);
+  expect(store3.getState()).toMatchObject({
+    subA: { value: 20 },
+    subB: { id: 1 },
+  });
+});
+
+it("persistOptions with codecs", () => {
+  let _storage;
+
+  const storage = {
+    getItem: () => _storage,
+    setItem: (_, v: any) => (_storage = JSON.parse(JSON.stringify(v))),
+    removeItem() {},
+  };
+
+  class Point {
+    constructor(public x: number, public y: number) {}
+  }
+
+  const pointCodec: PersistCodec<Point, [number, number]> = {
+    tag: "Point",
+    test: (x) => x instanceof Point,
+    encode: (p) => [p.x, p.y],
+    decode: ([x, y]) => new Point(x, y),
+  };
+
+  const createTestStore = (value) =>
+    create<any>()(
+      persist(() => ({ sub: { value } }), {
+        name: "test",
+        storage,
+        ...persistOptions.withCodecs([
+          persistCodecs.date,
+          persistCodecs.map,
+          persistCodecs.set,
+          persistCodecs.bigint,
+          pointCodec,
+        ]),
+      })
+    );
+
+  const value = {
+    date: new Date(1000),
+    map: new Map([["a", [new Date(2000)]]]),
+    set: new Set([1, 2]),
+    big: BigInt(10),
+    point: new Point(1, 2),
+  };
+
+  const store1 = createTestStore(value);
+  store1.setState({ sub: { value } }); // save
+
+  const store2 = createTestStore(undefined);
+  const res = store2.getState().sub.value;
+
+  expect(res).toEqual(value);
+  expect(res.date).toBeInstanceOf(Date);
+  expect(res.map.get("a")[0]).toBeInstanceOf(Date);
+  expect(res.point).toBeInstanceOf(Point);
+  expect(typeof res.big).toBe("bigint");
+});
+
 describe("lens meta type tests", () => {
   it("with explicitly typed store", () => {
     interface Nested {
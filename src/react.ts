@@ -0,0 +1,56 @@
+import { createContext, createElement, useContext, useRef } from "react";
+import type { ReactNode } from "react";
+import { useStore } from "zustand";
+import type { LensContext } from "./core";
+
+// any lens context can be used as a reference
+export type LensRef<T> = Pick<LensContext<T, any>, "api" | "rootPath">;
+
+export type EqualityFn<U> = (a: U, b: U) => boolean;
+
+const identity = (x) => x;
+
+const NONE = {};
+
+export function useLens<T, U = T>(
+  lens: LensRef<T>,
+  selector: (state: T) => U = identity,
+  equalityFn: EqualityFn<U> = Object.is
+): U {
+  // keeps previous result if it's equal to the next one
+  const prev = useRef<U>(NONE as U);
+
+  return useStore(lens.api, (rootState) => {
+    const state = lens.rootPath.reduce((x, k) => x?.[k], rootState);
+    const next = selector(state);
+
+    return prev.current !== NONE && equalityFn(prev.current, next)
+      ? prev.current
+      : (prev.current = next);
+  });
+}
+
+export function createLensHooks<T>() {
+  const Context = createContext<LensRef<T> | null>(null);
+
+  const LensProvider = ({
+    lens,
+    children,
+  }: {
+    lens: LensRef<T>;
+    children?: ReactNode;
+  }) => createElement(Context.Provider, { value: lens }, children);
+
+  const useLensRef = (): LensRef<T> => {
+    const lens = useContext(Context);
+    if (!lens) throw new Error("Component must be inside `LensProvider`.");
+    return lens;
+  };
+
+  return {
+    LensProvider,
+    useLensRef,
+    useLens: <U = T>(selector?: (state: T) => U, equalityFn?: EqualityFn<U>) =>
+      useLens(useLensRef(), selector, equalityFn),
+  };
+}
@@ -0,0 +1,30 @@
+// internal helpers shared by `core` and `helpers`, not exported from the package
+
+import { isPlainObject } from "@dhmk/utils";
+
+// functions are not serializable (e.g. recorded, patched or synced state)
+export const toData = (x) => {
+  if (Array.isArray(x)) return x.map(toData);
+  if (!isPlainObject(x)) return x;
+
+  const res = {};
+  Object.keys(x).forEach((k) => {
+    if (typeof x[k] !== "function") res[k] = toData(x[k]);
+  });
+  return res;
+};
+
+// puts functions (and `[meta]`) of `current` state into `data` made by `toData`
+export const withFunctions = (current, data) => {
+  if (!isPlainObject(current) || !isPlainObject(data)) return data;
+
+  const res = {};
+  Object.keys(current).forEach((k) => {
+    if (typeof current[k] === "function") res[k] = current[k];
+  });
+  Object.getOwnPropertySymbols?.(current).forEach((k) => (res[k] = current[k]));
+  Object.keys(data).forEach(
+    (k) => (res[k] = withFunctions(current[k], data[k]))
+  );
+  return res;
+};